@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "Post" ADD COLUMN     "like_count" INTEGER NOT NULL DEFAULT 0;
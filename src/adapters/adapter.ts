@@ -0,0 +1,282 @@
+import { DEFAULT_BATCH_SIZE } from "../data-generator";
+import type {
+  ConnectOptions,
+  DataBatch,
+  Engine,
+  OperationOutcome,
+  PostRecord,
+  QueryPlan,
+  SearchMethod,
+  SearchQuery,
+  StorageSize,
+  Suite,
+  TestData,
+  TransactionMode,
+  UserRecord,
+} from "../types";
+
+export const ENGINE_LABELS: Record<Engine, string> = {
+  postgres: "Postgres",
+  mongo: "MongoDB",
+  sqlite: "SQLite",
+};
+
+// One benchmark target, e.g. Postgres with relations or MongoDB with indexes.
+// Every operation method runs the query only, timing is done by the caller.
+// The scale operations return what the query returned, so the results can be
+// compared across engines.
+export interface DatabaseAdapter {
+  readonly key: string;    // Key in TestResults and test-results.json
+  readonly label: string;  // Column header in the console output and charts
+  readonly engine: Engine;
+  readonly suite: Suite;
+  // Key of the variant whose operations this one reimplements without an ORM
+  readonly mirrors?: string;
+  // Name of the configured target it runs on (see src/targets.ts), the
+  // built-in variants run on the containers or the local databases
+  readonly target?: string;
+
+  connect(options?: ConnectOptions): Promise<void>;
+  disconnect(): Promise<void>;
+  // Inserts the users the operations depend on and keeps the rest for writes
+  seed(data: TestData): Promise<void>;
+  cleanup(): Promise<void>;
+
+  writes(): Promise<OperationOutcome>;
+  simpleRead(): Promise<OperationOutcome>;
+  filteredRead(): Promise<OperationOutcome>;
+  projectedRead(): Promise<OperationOutcome>;
+  sortedRead(): Promise<OperationOutcome>;
+  update(): Promise<OperationOutcome>;
+  delete(): Promise<OperationOutcome>;
+
+  postsPerUser(): Promise<void>;
+  avgLikesPerPost(): Promise<void>;
+  mostActiveUsers(): Promise<void>;
+  mostLikedPosts(): Promise<void>;
+  userEngagement(): Promise<void>;
+}
+
+export const TIMELINE_PAGE_SIZE = 20;
+export const TIMELINE_PAGES = 5;
+
+// Social graph queries on the Follows model, userId is a generated record id
+export interface GraphAdapter {
+  // Inserts the generated follows, the users have to be seeded already
+  followWrites(): Promise<void>;
+  // Follower and following count of one user
+  followCounts(userId: number): Promise<void>;
+  // Users the user follows who follow back
+  mutualFollows(userId: number): Promise<void>;
+  // Top 10 users followed by the user's followings the user doesn't follow yet
+  friendsOfFriends(userId: number): Promise<void>;
+  // TIMELINE_PAGES pages of the newest posts of followed users
+  homeTimeline(userId: number): Promise<void>;
+}
+
+export function supportsGraph(
+  adapter: DatabaseAdapter,
+): adapter is DatabaseAdapter & GraphAdapter {
+  return "followWrites" in adapter;
+}
+
+export const FEED_PAGE_SIZE = 20;
+
+// The last post of the previous page, ids are generated record ids
+export interface FeedCursor {
+  id: number;
+  created_at: Date;
+}
+
+// Pages through all posts, newest first and ties broken by the higher id.
+// Every page resolves to the ids of its posts.
+export interface PaginationAdapter {
+  // Skips `page` pages
+  offsetPage(page: number): Promise<number[]>;
+  // Starts after the cursor, the first page has none
+  keysetPage(cursor: FeedCursor | null): Promise<number[]>;
+  // Index on (created_at, id) in feed order, which both kinds of pages can use
+  createFeedIndex(): Promise<void>;
+  dropFeedIndex(): Promise<void>;
+}
+
+export function supportsPagination(
+  adapter: DatabaseAdapter,
+): adapter is DatabaseAdapter & PaginationAdapter {
+  return "keysetPage" in adapter;
+}
+
+export const SEARCH_LIMIT = 20;
+
+// Methods that scan the posts without an index, as a baseline
+export const UNINDEXED_SEARCH_METHODS = new Set<SearchMethod>(["ilike"]);
+
+// Text search on the title and body of the posts
+export interface SearchAdapter {
+  readonly searchMethods: SearchMethod[];
+  // Resolves once the index is built, a no-op for unindexed methods
+  createSearchIndex(method: SearchMethod): Promise<void>;
+  dropSearchIndex(method: SearchMethod): Promise<void>;
+  searchIndexSize(method: SearchMethod): Promise<number>;
+  // The best SEARCH_LIMIT matches, ranked where the method has a rank
+  search(method: SearchMethod, query: SearchQuery): Promise<void>;
+}
+
+export function supportsSearch(
+  adapter: DatabaseAdapter,
+): adapter is DatabaseAdapter & SearchAdapter {
+  return "searchMethods" in adapter;
+}
+
+// Single-record operations of the YCSB style workloads, postId is a generated record id
+export interface WorkloadAdapter {
+  // One post including its likes
+  readPost(postId: number): Promise<void>;
+  updatePost(postId: number, status: string): Promise<void>;
+  insertPost(post: PostRecord): Promise<void>;
+  // Up to `count` posts in id order, starting at postId
+  scanPosts(postId: number, count: number): Promise<void>;
+}
+
+export function supportsWorkload(
+  adapter: DatabaseAdapter,
+): adapter is DatabaseAdapter & WorkloadAdapter {
+  return "readPost" in adapter;
+}
+
+// Variants that add secondary indexes on top of the schema. They create them
+// in seed, before the writes, and drop them in cleanup.
+export interface IndexAdapter {
+  createIndexes(): Promise<void>;
+  dropIndexes(): Promise<void>;
+  indexSize(): Promise<number>;  // Bytes used by the secondary indexes
+}
+
+export function supportsIndexes(
+  adapter: DatabaseAdapter,
+): adapter is DatabaseAdapter & IndexAdapter {
+  return "createIndexes" in adapter;
+}
+
+// Writes to data other records may keep copies of, ids are generated record
+// ids. Normalized variants change a single record, denormalized ones also
+// update their copies.
+export interface MaintenanceAdapter {
+  renameUser(userId: number, username: string): Promise<void>;
+  addLike(postId: number, userId: number): Promise<void>;
+  removeLike(postId: number, userId: number): Promise<void>;
+}
+
+export function supportsMaintenance(
+  adapter: DatabaseAdapter,
+): adapter is DatabaseAdapter & MaintenanceAdapter {
+  return "renameUser" in adapter;
+}
+
+// Atomic multi-record writes, ids are generated record ids. Every method
+// retries on write conflicts and resolves to the number of retries it took.
+export interface TransactionAdapter {
+  readonly transactionModes: TransactionMode[];
+  // Inserts the like and increments the post's denormalized like_count
+  likePost(mode: TransactionMode, postId: number, userId: number): Promise<number>;
+  // Deletes the user with their posts, follows and likes, likes given
+  // included, and decrements the like_count of the posts they liked
+  deleteUser(mode: TransactionMode, userId: number): Promise<number>;
+  // Reads the post and hands it to another user
+  transferPost(mode: TransactionMode, postId: number, toUserId: number): Promise<number>;
+  // Sums of the denormalized like_count and of the actual likes of the posts
+  likeCounts(postIds: number[]): Promise<{ denormalized: number; actual: number }>;
+}
+
+export function supportsTransactions(
+  adapter: DatabaseAdapter,
+): adapter is DatabaseAdapter & TransactionAdapter {
+  return "likePost" in adapter;
+}
+
+export const MAX_TRANSACTION_RETRIES = 10;
+
+export class TransactionRetriesExhausted extends Error {
+  readonly retries: number;
+
+  constructor(retries: number, cause: unknown) {
+    super(`Transaction failed after ${retries} retries: ${(cause as Error).message}`, { cause });
+    this.name = "TransactionRetriesExhausted";
+    this.retries = retries;
+  }
+}
+
+// Reruns the whole transaction as long as isConflict accepts the error, up to
+// MAX_TRANSACTION_RETRIES times. Resolves to the number of retries.
+export async function retryTransaction(
+  run: () => Promise<unknown>,
+  isConflict: (error: unknown) => boolean,
+): Promise<number> {
+  for (let retries = 0; ; retries++) {
+    try {
+      await run();
+      return retries;
+    } catch (error) {
+      if (!isConflict(error)) throw error;
+      if (retries === MAX_TRANSACTION_RETRIES) throw new TransactionRetriesExhausted(retries, error);
+      // Jittered backoff, writers that just conflicted would conflict again
+      await new Promise((resolve) => setTimeout(resolve, Math.random() * 2 ** retries));
+    }
+  }
+}
+
+// Streamed seeding: loads a dataset batch by batch without keeping it, users
+// first, then posts, then likes. The tables have to be empty at the start.
+export interface BulkLoadAdapter {
+  loadBatch(batch: DataBatch): Promise<number>;  // Inserted rows
+}
+
+export function supportsBulkLoad(
+  adapter: DatabaseAdapter,
+): adapter is DatabaseAdapter & BulkLoadAdapter {
+  return "loadBatch" in adapter;
+}
+
+// Seeds the users of a suite's data in batches of a streamed load. The posts
+// and likes stay with the adapter, inserting them is the timed writes.
+export async function loadUsers(adapter: BulkLoadAdapter, users: UserRecord[]) {
+  for (let i = 0; i < users.length; i += DEFAULT_BATCH_SIZE) {
+    await adapter.loadBatch({ table: "users", rows: users.slice(i, i + DEFAULT_BATCH_SIZE) });
+  }
+}
+
+// Variants that can tell how much disk space their tables or collections take
+export interface StorageAdapter {
+  // Keyed by table or collection. Compacts first, space that deleted rows of
+  // earlier iterations left behind isn't counted.
+  storageSize(): Promise<Record<string, StorageSize>>;
+}
+
+export function supportsStorage(
+  adapter: DatabaseAdapter,
+): adapter is DatabaseAdapter & StorageAdapter {
+  return "storageSize" in adapter;
+}
+
+// Stored query texts are cut off here, bulk writes send every row
+const MAX_QUERY_LENGTH = 2000;
+
+export function truncateQuery(query: string): string {
+  return query.length > MAX_QUERY_LENGTH
+    ? `${query.slice(0, MAX_QUERY_LENGTH)}... (${query.length} characters)`
+    : query;
+}
+
+// Adapters connected with captureQueries can explain what an operation sends
+export interface ExplainAdapter {
+  // Runs the operation once to record its queries, calls restore to undo its
+  // changes and returns the plan of every recorded query. Explaining doesn't
+  // change the data.
+  explain(run: () => Promise<unknown>, restore: () => Promise<void>): Promise<QueryPlan[]>;
+}
+
+export function supportsExplain(
+  adapter: DatabaseAdapter,
+): adapter is DatabaseAdapter & ExplainAdapter {
+  return "explain" in adapter;
+}
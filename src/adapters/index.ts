@@ -0,0 +1,154 @@
+import type { TargetConfig } from "../targets";
+import type { Suite } from "../types";
+import type { DatabaseAdapter } from "./adapter";
+import {
+  MongoBasicAdapter,
+  MongoEmbeddedAdapter,
+  MongoIndexedAdapter,
+  MongoRelationsAdapter,
+} from "./mongo";
+import {
+  PostgresBasicAdapter,
+  PostgresIndexedAdapter,
+  PostgresRelationsAdapter,
+} from "./postgres";
+import {
+  bunSqlClient,
+  PostgresRawBasicAdapter,
+  PostgresRawRelationsAdapter,
+  prismaRawClient,
+} from "./postgres-raw";
+import { SqliteBasicAdapter, SqliteRelationsAdapter } from "./sqlite";
+
+export type {
+  BulkLoadAdapter,
+  DatabaseAdapter,
+  ExplainAdapter,
+  GraphAdapter,
+  IndexAdapter,
+  FeedCursor,
+  MaintenanceAdapter,
+  PaginationAdapter,
+  SearchAdapter,
+  StorageAdapter,
+  TransactionAdapter,
+  WorkloadAdapter,
+} from "./adapter";
+export {
+  ENGINE_LABELS,
+  FEED_PAGE_SIZE,
+  MAX_TRANSACTION_RETRIES,
+  SEARCH_LIMIT,
+  supportsBulkLoad,
+  supportsExplain,
+  supportsGraph,
+  supportsIndexes,
+  supportsMaintenance,
+  supportsPagination,
+  supportsSearch,
+  supportsStorage,
+  supportsTransactions,
+  supportsWorkload,
+  TransactionRetriesExhausted,
+  UNINDEXED_SEARCH_METHODS,
+} from "./adapter";
+
+type AdapterFactory = (key: string) => DatabaseAdapter;
+
+// Insertion order is the column order of the results table
+const registry = new Map<string, AdapterFactory>();
+
+export function registerAdapter(key: string, factory: AdapterFactory) {
+  if (registry.has(key)) {
+    throw new Error(`Adapter "${key}" is already registered`);
+  }
+  registry.set(key, factory);
+}
+
+export function registeredAdapters(): string[] {
+  return [...registry.keys()];
+}
+
+export function createAdapters(
+  keys: string[] = registeredAdapters(),
+): DatabaseAdapter[] {
+  const unknown = keys.filter((key) => !registry.has(key));
+  if (unknown.length > 0) {
+    throw new Error(`Unknown adapters: ${unknown.join(", ")}`);
+  }
+
+  return registeredAdapters()
+    .filter((key) => keys.includes(key))
+    .map((key) => registry.get(key)!(key));
+}
+
+export const DEFAULT_MONGODB_URL = "mongodb://localhost:27017";
+
+// setupDocker sets MONGODB_URL to the container it started
+const localMongoUrl = () => process.env.MONGODB_URL || DEFAULT_MONGODB_URL;
+const sqlitePath = process.env.SQLITE_PATH || "benchmark.sqlite";
+
+registerAdapter("postgresBasic", (key) =>
+  new PostgresBasicAdapter(key, "Postgres Basic"));
+registerAdapter("postgresWithRelations", (key) =>
+  new PostgresRelationsAdapter(key, "Postgres Relations"));
+registerAdapter("postgresWithIndexes", (key) =>
+  new PostgresIndexedAdapter(key, "Postgres Indexed"));
+registerAdapter("postgresRawBasic", (key) =>
+  new PostgresRawBasicAdapter(key, "Postgres SQL Basic", bunSqlClient));
+registerAdapter("postgresRawRelations", (key) =>
+  new PostgresRawRelationsAdapter(key, "Postgres SQL Relations", bunSqlClient));
+registerAdapter("postgresQueryRawBasic", (key) =>
+  new PostgresRawBasicAdapter(key, "Postgres $queryRaw Basic", prismaRawClient));
+registerAdapter("postgresQueryRawRelations", (key) =>
+  new PostgresRawRelationsAdapter(key, "Postgres $queryRaw Relations", prismaRawClient));
+registerAdapter("mongoBasic", (key) =>
+  new MongoBasicAdapter(key, "Mongo Basic", localMongoUrl));
+registerAdapter("mongoWithRelations", (key) =>
+  new MongoRelationsAdapter(key, "Mongo Relations", localMongoUrl));
+registerAdapter("mongoWithIndexes", (key) =>
+  new MongoIndexedAdapter(key, "Mongo Indexed", localMongoUrl));
+registerAdapter("mongoEmbedded", (key) =>
+  new MongoEmbeddedAdapter(key, "Mongo Embedded", localMongoUrl));
+registerAdapter("sqliteBasic", (key) =>
+  new SqliteBasicAdapter(key, "SQLite Basic", sqlitePath));
+registerAdapter("sqliteWithRelations", (key) =>
+  new SqliteRelationsAdapter(key, "SQLite Relations", sqlitePath));
+
+// Key and label suffix of the variant a target gets per suite, named like the
+// built-in ones, e.g. atlasWithRelations "Mongo Atlas Relations"
+const TARGET_VARIANTS: Record<Suite, { key: string; label: string }> = {
+  basic: { key: "Basic", label: "Basic" },
+  relational: { key: "WithRelations", label: "Relations" },
+  indexed: { key: "WithIndexes", label: "Indexed" },
+};
+
+type TargetFactory = (key: string, label: string, url: () => string, target: string) =>
+  DatabaseAdapter;
+
+const TARGET_ADAPTERS: Record<TargetConfig["engine"], Record<Suite, TargetFactory>> = {
+  postgres: {
+    basic: (...args) => new PostgresBasicAdapter(...args),
+    relational: (...args) => new PostgresRelationsAdapter(...args),
+    indexed: (...args) => new PostgresIndexedAdapter(...args),
+  },
+  mongo: {
+    basic: (...args) => new MongoBasicAdapter(...args),
+    relational: (...args) => new MongoRelationsAdapter(...args),
+    indexed: (...args) => new MongoIndexedAdapter(...args),
+  },
+};
+
+// One variant per enabled suite of every configured target, after the
+// built-in ones in the results table
+export function createTargetAdapters(targets: TargetConfig[]): DatabaseAdapter[] {
+  return targets.flatMap((target) => target.suites.map((suite) => {
+    const { key, label } = TARGET_VARIANTS[suite];
+    return TARGET_ADAPTERS[target.engine][suite](
+      `${target.name}${key}`,
+      `${target.label} ${label}`,
+      () => target.url,
+      target.name,
+    );
+  }));
+}
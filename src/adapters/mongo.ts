@@ -0,0 +1,1298 @@
+import {
+  MongoClient,
+  MongoError,
+  ObjectId,
+  type ClientSession,
+  type CommandStartedEvent,
+  type Db,
+  type Document,
+  type IndexSpecification,
+  type MongoBulkWriteError,
+} from "mongodb";
+import type {
+  ConnectOptions,
+  DataBatch,
+  Engine,
+  LikeRecord,
+  OperationOutcome,
+  PostRecord,
+  QueryPlan,
+  SearchMethod,
+  SearchQuery,
+  StorageSize,
+  Suite,
+  TestData,
+  TransactionMode,
+  UserRecord,
+} from "../types";
+import {
+  FEED_PAGE_SIZE,
+  loadUsers,
+  retryTransaction,
+  SEARCH_LIMIT,
+  type BulkLoadAdapter,
+  TIMELINE_PAGE_SIZE,
+  TIMELINE_PAGES,
+  truncateQuery,
+  type DatabaseAdapter,
+  type ExplainAdapter,
+  type FeedCursor,
+  type GraphAdapter,
+  type IndexAdapter,
+  type MaintenanceAdapter,
+  type PaginationAdapter,
+  type SearchAdapter,
+  type StorageAdapter,
+  type TransactionAdapter,
+  type WorkloadAdapter,
+} from "./adapter";
+
+// Deterministic ObjectId for a generated record id, so references resolve
+// without a lookup table
+export function toObjectId(id: number): ObjectId {
+  return ObjectId.createFromHexString(id.toString(16).padStart(24, "0"));
+}
+
+function fromObjectId(id: ObjectId): number {
+  return parseInt(id.toHexString(), 16);
+}
+
+function toPostDocument({ id, user_id, ...post }: PostRecord) {
+  return {
+    _id: toObjectId(id),
+    ...post,
+    user_id: toObjectId(user_id),
+  };
+}
+
+function toUserDocument({ id, ...user }: UserRecord) {
+  return {
+    _id: toObjectId(id),
+    ...user,
+  };
+}
+
+function toLikeDocument(like: LikeRecord) {
+  return {
+    post_id: toObjectId(like.post_id),
+    user_id: toObjectId(like.user_id),
+    created_at: like.created_at,
+  };
+}
+
+function toMongoDocuments(data: TestData) {
+  return {
+    users: data.users.map(toUserDocument),
+    posts: data.posts.map(toPostDocument),
+    likes: data.likes.map(toLikeDocument),
+    follows: data.follows.map((follow) => ({
+      following_user_id: toObjectId(follow.following_user_id),
+      followed_user_id: toObjectId(follow.followed_user_id),
+      created_at: follow.created_at,
+    })),
+  };
+}
+
+type MongoDocuments = ReturnType<typeof toMongoDocuments>;
+
+// Secondary indexes of the indexed variant, named like MongoDB's defaults
+const SECONDARY_INDEXES: { collection: string, name: string, keys: IndexSpecification }[] = [
+  { collection: "users", name: "created_at_1", keys: { created_at: 1 } },
+  { collection: "posts", name: "user_id_1", keys: { user_id: 1 } },
+  { collection: "posts", name: "status_1", keys: { status: 1 } },
+  { collection: "posts", name: "created_at_1", keys: { created_at: 1 } },
+  { collection: "posts", name: "status_1_created_at_-1", keys: { status: 1, created_at: -1 } },
+  { collection: "likes", name: "post_id_1", keys: { post_id: 1 } },
+  { collection: "likes", name: "user_id_1", keys: { user_id: 1 } },
+];
+
+// Feed order of the pagination suite
+const FEED_INDEX = { name: "created_at_-1__id_-1", keys: { created_at: -1, _id: -1 } } as const;
+
+// A collection can only have one text index
+const TEXT_INDEX = { name: "title_text_body_text", keys: { title: "text", body: "text" } } as const;
+
+// Commands the explain command accepts, inserts have no plan
+const EXPLAINABLE = new Set([
+  "find",
+  "aggregate",
+  "count",
+  "distinct",
+  "update",
+  "delete",
+  "findAndModify",
+]);
+
+// Drops the session and cluster fields the driver adds to every command
+function explainableCommand(command: Document): Document {
+  return Object.fromEntries(
+    Object.entries(command).filter(([key]) =>
+      !key.startsWith("$") && key !== "lsid" && key !== "txnNumber"
+    ),
+  );
+}
+
+// Walks the whole explain output, aggregations nest the plans of their stages
+function summarizePlan(
+  node: unknown,
+  scans: Set<string>,
+  indexes: Set<string>,
+  namespace = "",
+) {
+  if (Array.isArray(node)) {
+    node.forEach((child) => summarizePlan(child, scans, indexes, namespace));
+    return;
+  }
+  if (node === null || typeof node !== "object") return;
+
+  const doc = node as Document;
+  if (typeof doc.namespace === "string") namespace = doc.namespace;
+  const collection = (ns: string) => ns.slice(ns.indexOf(".") + 1);
+
+  if (doc.stage === "COLLSCAN") scans.add(collection(namespace));
+  if (typeof doc.indexName === "string") indexes.add(doc.indexName);
+  // Slot based $lookup, only the indexed strategy avoids scanning the other collection
+  if (doc.stage === "EQ_LOOKUP" && doc.strategy !== "IndexedLoopJoin") {
+    scans.add(collection(String(doc.foreignCollection)));
+  }
+  // Classic $lookup reports its scans next to the stage
+  if (doc.$lookup && doc.collectionScans > 0) scans.add(doc.$lookup.from);
+  if (doc.$lookup && Array.isArray(doc.indexesUsed)) {
+    doc.indexesUsed.forEach((index: string) => indexes.add(index));
+  }
+
+  for (const [key, child] of Object.entries(doc)) {
+    // The losing plans weren't executed
+    if (key !== "rejectedPlans" && key !== "allPlansExecution") {
+      summarizePlan(child, scans, indexes, namespace);
+    }
+  }
+}
+
+// Write conflicts and elections abort a transaction with this label, the
+// whole transaction can be retried
+const isWriteConflict = (error: unknown) =>
+  error instanceof MongoError && error.hasErrorLabel("TransientTransactionError");
+
+abstract class MongoAdapter implements
+  DatabaseAdapter,
+  GraphAdapter,
+  WorkloadAdapter,
+  ExplainAdapter,
+  TransactionAdapter,
+  PaginationAdapter,
+  SearchAdapter,
+  StorageAdapter,
+  BulkLoadAdapter {
+  readonly key: string;
+  readonly label: string;
+  readonly engine: Engine = "mongo";
+  abstract readonly suite: Suite;
+  readonly target?: string;
+  // Transactions always run application code between their commands
+  readonly transactionModes: TransactionMode[] = ["interactive"];
+  readonly searchMethods: SearchMethod[] = ["text"];
+
+  protected client!: MongoClient;
+  protected db!: Db;
+  protected docs: MongoDocuments = { users: [], posts: [], likes: [], follows: [] };
+  // Resolved on connect, the URL of a container is only known once it's started
+  private url: () => string;
+  // Commands sent while an operation is explained
+  private recorded: Document[] | null = null;
+
+  constructor(key: string, label: string, url: () => string, target?: string) {
+    this.key = key;
+    this.label = label;
+    this.url = url;
+    this.target = target;
+  }
+
+  async connect(options: ConnectOptions = {}) {
+    // Clients are created here so listing or filtering adapters stays side effect free
+    this.client = new MongoClient(this.url(), {
+      maxPoolSize: options.poolSize,
+      monitorCommands: options.captureQueries,
+    });
+    if (options.captureQueries) {
+      this.client.on("commandStarted", (event: CommandStartedEvent) => {
+        if (EXPLAINABLE.has(event.commandName)) this.recorded?.push(event.command);
+      });
+    }
+    this.db = this.client.db("social_network");
+    await this.client.connect();
+
+    // Same uniqueness constraints as the Prisma schema
+    await this.db.collection("users").createIndex({ username: 1 }, {
+      unique: true,
+    });
+    await this.db.collection("likes").createIndex({ post_id: 1, user_id: 1 }, {
+      unique: true,
+    });
+    await this.db.collection("follows").createIndex(
+      { following_user_id: 1, followed_user_id: 1 },
+      { unique: true },
+    );
+  }
+
+  async explain(run: () => Promise<unknown>, restore: () => Promise<void>) {
+    const recorded: Document[] = [];
+    this.recorded = recorded;
+    try {
+      await run();
+    } finally {
+      this.recorded = null;
+    }
+    // Explain never writes, restoring only gives the commands the data they ran against
+    await restore();
+
+    const plans: QueryPlan[] = [];
+    for (const command of recorded.map(explainableCommand)) {
+      const result = await this.db.command({
+        explain: command,
+        verbosity: "executionStats",
+      });
+      const scans = new Set<string>();
+      const indexes = new Set<string>();
+      summarizePlan(result, scans, indexes);
+      plans.push({
+        query: truncateQuery(JSON.stringify(command)),
+        plan: result,
+        sequentialScans: [...scans],
+        indexes: [...indexes],
+      });
+    }
+    return plans;
+  }
+
+  async disconnect() {
+    await this.client.close();
+  }
+
+  async storageSize() {
+    const collections = ["users", "posts", "likes", "follows"];
+    for (const collection of collections) {
+      await this.db.command({ compact: collection });
+    }
+    // WiredTiger writes the data files at checkpoints, fsync forces one
+    await this.client.db("admin").command({ fsync: 1 });
+
+    const sizes: Record<string, StorageSize> = {};
+    for (const collection of collections) {
+      const [stats] = await this.db.collection(collection)
+        .aggregate([{ $collStats: { storageStats: {} } }])
+        .toArray();
+      sizes[collection] = {
+        dataBytes: stats.storageStats.storageSize,
+        indexBytes: stats.storageStats.totalIndexSize,
+      };
+    }
+    return sizes;
+  }
+
+  async seed(data: TestData) {
+    this.docs = toMongoDocuments(data);
+    await loadUsers(this, data.users);
+  }
+
+  async loadBatch(batch: DataBatch) {
+    const collection = this.db.collection(batch.table);
+    switch (batch.table) {
+      case "users":
+        return (await collection.insertMany(batch.rows.map(toUserDocument))).insertedCount;
+      case "posts":
+        return (await collection.insertMany(batch.rows.map(toPostDocument))).insertedCount;
+      case "likes":
+        return (await collection.insertMany(batch.rows.map(toLikeDocument))).insertedCount;
+    }
+  }
+
+  async cleanup() {
+    await this.db.collection("likes").deleteMany({});
+    await this.db.collection("follows").deleteMany({});
+    await this.db.collection("posts").deleteMany({});
+    await this.db.collection("users").deleteMany({});
+  }
+
+  abstract writes(): Promise<OperationOutcome>;
+  abstract simpleRead(): Promise<OperationOutcome>;
+  abstract filteredRead(): Promise<OperationOutcome>;
+  abstract projectedRead(): Promise<OperationOutcome>;
+  abstract sortedRead(): Promise<OperationOutcome>;
+  abstract update(): Promise<OperationOutcome>;
+  abstract delete(): Promise<OperationOutcome>;
+
+  async postsPerUser() {
+    await this.db.collection("users").aggregate([
+      {
+        $lookup: {
+          from: "posts",
+          localField: "_id",
+          foreignField: "user_id",
+          as: "posts",
+        },
+      },
+      {
+        $project: {
+          username: 1,
+          postCount: { $size: "$posts" },
+        },
+      },
+      { $sort: { postCount: -1 } },
+    ]).toArray();
+  }
+
+  async avgLikesPerPost() {
+    await this.db.collection("posts").aggregate([
+      {
+        $lookup: {
+          from: "likes",
+          localField: "_id",
+          foreignField: "post_id",
+          as: "likes",
+        },
+      },
+      {
+        $group: {
+          _id: null,
+          avgLikes: { $avg: { $size: "$likes" } },
+        },
+      },
+    ]).toArray();
+  }
+
+  async mostActiveUsers() {
+    await this.db.collection("users").aggregate([
+      {
+        $lookup: {
+          from: "posts",
+          localField: "_id",
+          foreignField: "user_id",
+          as: "posts",
+        },
+      },
+      {
+        $lookup: {
+          from: "likes",
+          localField: "posts._id",
+          foreignField: "post_id",
+          as: "receivedLikes",
+        },
+      },
+      {
+        $project: {
+          username: 1,
+          postCount: { $size: "$posts" },
+          totalLikes: { $size: "$receivedLikes" },
+        },
+      },
+      { $sort: { postCount: -1, totalLikes: -1 } },
+      { $limit: 10 },
+    ]).toArray();
+  }
+
+  async mostLikedPosts() {
+    await this.db.collection("posts").aggregate([
+      {
+        $lookup: {
+          from: "likes",
+          localField: "_id",
+          foreignField: "post_id",
+          as: "likes",
+        },
+      },
+      {
+        $lookup: {
+          from: "users",
+          localField: "user_id",
+          foreignField: "_id",
+          as: "user",
+        },
+      },
+      {
+        $project: {
+          title: 1,
+          "user.username": 1,
+          likeCount: { $size: "$likes" },
+        },
+      },
+      { $sort: { likeCount: -1 } },
+      { $limit: 10 },
+    ]).toArray();
+  }
+
+  async userEngagement() {
+    await this.db.collection("users").aggregate([
+      // Posts created
+      {
+        $lookup: {
+          from: "posts",
+          localField: "_id",
+          foreignField: "user_id",
+          as: "posts",
+        },
+      },
+      // Likes given
+      {
+        $lookup: {
+          from: "likes",
+          localField: "_id",
+          foreignField: "user_id",
+          as: "likesGiven",
+        },
+      },
+      // Likes received on posts
+      {
+        $lookup: {
+          from: "likes",
+          localField: "posts._id",
+          foreignField: "post_id",
+          as: "likesReceived",
+        },
+      },
+      {
+        $project: {
+          username: 1,
+          postCount: { $size: "$posts" },
+          likesGiven: { $size: "$likesGiven" },
+          likesReceived: { $size: "$likesReceived" },
+          engagementScore: {
+            $add: [
+              { $size: "$posts" },
+              { $size: "$likesGiven" },
+              { $size: "$likesReceived" },
+            ],
+          },
+        },
+      },
+      { $sort: { engagementScore: -1 } },
+      { $limit: 10 },
+    ]).toArray();
+  }
+
+  async followWrites() {
+    await this.db.collection("follows").insertMany(this.docs.follows);
+  }
+
+  async followCounts(userId: number) {
+    const user = toObjectId(userId);
+    await this.db.collection("follows").countDocuments({ followed_user_id: user });
+    await this.db.collection("follows").countDocuments({ following_user_id: user });
+  }
+
+  async mutualFollows(userId: number) {
+    const user = toObjectId(userId);
+    await this.db.collection("follows").aggregate([
+      { $match: { following_user_id: user } },
+      {
+        $lookup: {
+          from: "follows",
+          let: { followed: "$followed_user_id" },
+          pipeline: [
+            {
+              $match: {
+                $expr: {
+                  $and: [
+                    { $eq: ["$following_user_id", "$$followed"] },
+                    { $eq: ["$followed_user_id", user] },
+                  ],
+                },
+              },
+            },
+          ],
+          as: "back",
+        },
+      },
+      { $match: { "back.0": { $exists: true } } },
+      { $project: { followed_user_id: 1 } },
+    ]).toArray();
+  }
+
+  async friendsOfFriends(userId: number) {
+    const user = toObjectId(userId);
+    const following = await this.db.collection("follows")
+      .find({ following_user_id: user }, { projection: { followed_user_id: 1 } })
+      .toArray();
+    const followed = following.map((f) => f.followed_user_id);
+
+    await this.db.collection("follows").aggregate([
+      {
+        $match: {
+          following_user_id: { $in: followed },
+          followed_user_id: { $nin: [...followed, user] },
+        },
+      },
+      { $group: { _id: "$followed_user_id", mutualCount: { $sum: 1 } } },
+      { $sort: { mutualCount: -1, _id: 1 } },
+      { $limit: 10 },
+    ]).toArray();
+  }
+
+  async homeTimeline(userId: number) {
+    // Fan-out on read: resolve the followed users, then page through their posts
+    const following = await this.db.collection("follows")
+      .find({ following_user_id: toObjectId(userId) }, {
+        projection: { followed_user_id: 1 },
+      })
+      .toArray();
+    const userIds = following.map((f) => f.followed_user_id);
+
+    for (let page = 0; page < TIMELINE_PAGES; page++) {
+      await this.db.collection("posts")
+        .find({ user_id: { $in: userIds } })
+        .sort({ created_at: -1, _id: -1 })
+        .skip(page * TIMELINE_PAGE_SIZE)
+        .limit(TIMELINE_PAGE_SIZE)
+        .toArray();
+    }
+  }
+
+  async offsetPage(page: number) {
+    const posts = await this.db.collection("posts")
+      .find()
+      .sort(FEED_INDEX.keys)
+      .skip(page * FEED_PAGE_SIZE)
+      .limit(FEED_PAGE_SIZE)
+      .toArray();
+    return posts.map((post) => fromObjectId(post._id));
+  }
+
+  async keysetPage(cursor: FeedCursor | null) {
+    // Range query on the sort keys, the zero padded ObjectIds sort like the record ids
+    const after = cursor
+      ? {
+        $or: [
+          { created_at: { $lt: cursor.created_at } },
+          { created_at: cursor.created_at, _id: { $lt: toObjectId(cursor.id) } },
+        ],
+      }
+      : {};
+    const posts = await this.db.collection("posts")
+      .find(after)
+      .sort(FEED_INDEX.keys)
+      .limit(FEED_PAGE_SIZE)
+      .toArray();
+    return posts.map((post) => fromObjectId(post._id));
+  }
+
+  async createFeedIndex() {
+    await this.db.collection("posts").createIndex(FEED_INDEX.keys, { name: FEED_INDEX.name });
+  }
+
+  async dropFeedIndex() {
+    await this.db.collection("posts").dropIndex(FEED_INDEX.name).catch(() => {});
+  }
+
+  async createSearchIndex() {
+    await this.db.collection("posts").createIndex(TEXT_INDEX.keys, { name: TEXT_INDEX.name });
+  }
+
+  async dropSearchIndex() {
+    await this.db.collection("posts").dropIndex(TEXT_INDEX.name).catch(() => {});
+  }
+
+  async searchIndexSize() {
+    const [stats] = await this.db.collection("posts")
+      .aggregate([{ $collStats: { storageStats: {} } }])
+      .toArray();
+    return stats?.storageStats.indexSizes[TEXT_INDEX.name] ?? 0;
+  }
+
+  async search(method: SearchMethod, { terms, phrase }: SearchQuery) {
+    // Unquoted terms match any of them, every quoted phrase has to match
+    const search = phrase
+      ? `"${terms.join(" ")}"`
+      : terms.length === 1 ? terms[0] : terms.map((term) => `"${term}"`).join(" ");
+    await this.db.collection("posts")
+      .find({ $text: { $search: search } }, {
+        projection: { title: 1, score: { $meta: "textScore" } },
+      })
+      .sort({ score: { $meta: "textScore" } })
+      .limit(SEARCH_LIMIT)
+      .toArray();
+  }
+
+  async readPost(postId: number) {
+    await this.db.collection("posts").aggregate([
+      { $match: { _id: toObjectId(postId) } },
+      {
+        $lookup: {
+          from: "likes",
+          localField: "_id",
+          foreignField: "post_id",
+          as: "likes",
+        },
+      },
+    ]).toArray();
+  }
+
+  async updatePost(postId: number, status: string) {
+    await this.db.collection("posts").updateOne(
+      { _id: toObjectId(postId) },
+      { $set: { status } },
+    );
+  }
+
+  async insertPost(post: PostRecord) {
+    await this.db.collection("posts").insertOne(toPostDocument(post));
+  }
+
+  async scanPosts(postId: number, count: number) {
+    // The zero padded ObjectIds sort like the record ids
+    await this.db.collection("posts")
+      .find({ _id: { $gte: toObjectId(postId) } })
+      .sort({ _id: 1 })
+      .limit(count)
+      .toArray();
+  }
+
+  // Multi-document transactions need a replica set, setupDocker starts one
+  protected async transaction(run: (session: ClientSession) => Promise<void>) {
+    return retryTransaction(async () => {
+      const session = this.client.startSession();
+      try {
+        session.startTransaction({
+          readConcern: { level: "snapshot" },
+          writeConcern: { w: "majority" },
+        });
+        await run(session);
+        await session.commitTransaction();
+      } catch (error) {
+        if (session.inTransaction()) await session.abortTransaction();
+        throw error;
+      } finally {
+        await session.endSession();
+      }
+    }, isWriteConflict);
+  }
+
+  async likePost(mode: TransactionMode, postId: number, userId: number) {
+    return this.transaction(async (session) => {
+      await this.db.collection("likes").insertOne({
+        post_id: toObjectId(postId),
+        user_id: toObjectId(userId),
+        created_at: new Date(),
+      }, { session });
+      await this.db.collection("posts").updateOne(
+        { _id: toObjectId(postId) },
+        { $inc: { like_count: 1 } },
+        { session },
+      );
+    });
+  }
+
+  async deleteUser(mode: TransactionMode, userId: number) {
+    const user = toObjectId(userId);
+    return this.transaction(async (session) => {
+      const liked = await this.db.collection("likes")
+        .find({ user_id: user }, { projection: { post_id: 1 }, session })
+        .toArray();
+      await this.db.collection("posts").updateMany(
+        { _id: { $in: liked.map((like) => like.post_id) } },
+        { $inc: { like_count: -1 } },
+        { session },
+      );
+
+      const posts = await this.db.collection("posts")
+        .find({ user_id: user }, { projection: { _id: 1 }, session })
+        .toArray();
+      await this.db.collection("likes").deleteMany({
+        $or: [{ user_id: user }, { post_id: { $in: posts.map((post) => post._id) } }],
+      }, { session });
+      await this.db.collection("follows").deleteMany({
+        $or: [{ following_user_id: user }, { followed_user_id: user }],
+      }, { session });
+      await this.db.collection("posts").deleteMany({ user_id: user }, { session });
+      await this.db.collection("users").deleteOne({ _id: user }, { session });
+    });
+  }
+
+  async transferPost(mode: TransactionMode, postId: number, toUserId: number) {
+    return this.transaction(async (session) => {
+      const post = await this.db.collection("posts")
+        .findOne({ _id: toObjectId(postId) }, { session });
+      if (!post) throw new Error(`Post ${postId} not found`);
+      if (post.user_id.equals(toObjectId(toUserId))) return;
+      await this.db.collection("posts").updateOne(
+        { _id: post._id },
+        { $set: { user_id: toObjectId(toUserId) } },
+        { session },
+      );
+    });
+  }
+
+  async likeCounts(postIds: number[]) {
+    const ids = postIds.map(toObjectId);
+    // Seeded posts have no like_count field yet, $sum counts it as 0
+    const [sum] = await this.db.collection("posts").aggregate([
+      { $match: { _id: { $in: ids } } },
+      { $group: { _id: null, likeCount: { $sum: "$like_count" } } },
+    ]).toArray();
+    const actual = await this.db.collection("likes").countDocuments({ post_id: { $in: ids } });
+    return { denormalized: sum?.likeCount ?? 0, actual };
+  }
+}
+
+export class MongoBasicAdapter extends MongoAdapter {
+  readonly suite: Suite = "basic";
+
+  async writes() {
+    const { insertedCount } = await this.db.collection("posts").insertMany(this.docs.posts);
+    return { affected: insertedCount };
+  }
+
+  async simpleRead() {
+    const rows = await this.db.collection("posts").find().toArray();
+    return { rows };
+  }
+
+  async filteredRead() {
+    const rows = await this.db.collection("posts").find({
+      status: "active",
+    }).toArray();
+    return { rows };
+  }
+
+  async projectedRead() {
+    const rows = await this.db.collection("posts").find({}, {
+      projection: { title: 1, created_at: 1 },
+    }).toArray();
+    return { rows };
+  }
+
+  async sortedRead() {
+    const rows = await this.db.collection("posts")
+      .find()
+      .sort({ created_at: -1 })
+      .toArray();
+    return { rows };
+  }
+
+  async update() {
+    const { matchedCount } = await this.db.collection("posts").updateMany(
+      { status: "active" },
+      { $set: { status: "archived" } },
+    );
+    return { affected: matchedCount };
+  }
+
+  async delete() {
+    const { deletedCount } = await this.db.collection("posts").deleteMany({
+      status: "archived",
+    });
+    return { affected: deletedCount };
+  }
+}
+
+export class MongoRelationsAdapter extends MongoAdapter implements MaintenanceAdapter {
+  readonly suite: Suite = "relational";
+
+  async writes() {
+    const posts = await this.db.collection("posts").insertMany(this.docs.posts);
+    if (this.docs.likes.length === 0) return { affected: posts.insertedCount };
+
+    // Insert likes with ordered: false to continue on error
+    try {
+      const likes = await this.db.collection("likes").insertMany(this.docs.likes, {
+        ordered: false,
+      });
+      return { affected: posts.insertedCount + likes.insertedCount };
+    } catch (error) {
+      console.log("Some duplicate likes were skipped");
+      return {
+        affected: posts.insertedCount + (error as MongoBulkWriteError).insertedCount,
+      };
+    }
+  }
+
+  async simpleRead() {
+    const rows = await this.db.collection("posts").aggregate([
+      {
+        $lookup: {
+          from: "users",
+          localField: "user_id",
+          foreignField: "_id",
+          as: "user",
+        },
+      },
+      {
+        $lookup: {
+          from: "likes",
+          localField: "_id",
+          foreignField: "post_id",
+          as: "likes",
+        },
+      },
+      { $unwind: "$user" },
+    ]).toArray();
+    return { rows };
+  }
+
+  async filteredRead() {
+    const rows = await this.db.collection("posts").aggregate([
+      {
+        $match: { status: "active" },
+      },
+      {
+        $lookup: {
+          from: "users",
+          localField: "user_id",
+          foreignField: "_id",
+          as: "user",
+        },
+      },
+      {
+        $lookup: {
+          from: "likes",
+          localField: "_id",
+          foreignField: "post_id",
+          as: "likes",
+        },
+      },
+      {
+        $match: { "likes.0": { $exists: true } },
+      },
+      { $unwind: "$user" },
+    ]).toArray();
+    return { rows };
+  }
+
+  async projectedRead() {
+    const rows = await this.db.collection("posts").aggregate([
+      {
+        $match: { status: "active" },
+      },
+      {
+        $lookup: {
+          from: "users",
+          localField: "user_id",
+          foreignField: "_id",
+          as: "user",
+        },
+      },
+      {
+        $lookup: {
+          from: "likes",
+          localField: "_id",
+          foreignField: "post_id",
+          as: "likes",
+        },
+      },
+      { $unwind: "$user" },
+      {
+        $project: {
+          title: 1,
+          created_at: 1,
+          "user.username": 1,
+          likeCount: { $size: "$likes" },
+        },
+      },
+    ]).toArray();
+    return { rows };
+  }
+
+  async sortedRead() {
+    const rows = await this.db.collection("posts").aggregate([
+      {
+        $match: { status: "active" },
+      },
+      {
+        $lookup: {
+          from: "users",
+          localField: "user_id",
+          foreignField: "_id",
+          as: "user",
+        },
+      },
+      {
+        $lookup: {
+          from: "likes",
+          localField: "_id",
+          foreignField: "post_id",
+          as: "likes",
+        },
+      },
+      { $unwind: "$user" },
+      {
+        $project: {
+          title: 1,
+          created_at: 1,
+          "user.username": 1,
+          likeCount: { $size: "$likes" },
+        },
+      },
+      {
+        $sort: { created_at: -1, title: 1 },
+      },
+    ]).toArray();
+    return { rows };
+  }
+
+  async update() {
+    const postsWithLikes = await this.db.collection("posts").aggregate([
+      {
+        $lookup: {
+          from: "likes",
+          localField: "_id",
+          foreignField: "post_id",
+          as: "likes",
+        },
+      },
+      {
+        $match: { "likes.0": { $exists: true } },
+      },
+    ]).toArray();
+
+    const { matchedCount } = await this.db.collection("posts").updateMany(
+      { _id: { $in: postsWithLikes.map((p) => p._id) } },
+      { $set: { status: "trending" } },
+    );
+    return { affected: matchedCount };
+  }
+
+  async delete() {
+    const postsWithoutLikes = await this.db.collection("posts").aggregate([
+      {
+        $lookup: {
+          from: "likes",
+          localField: "_id",
+          foreignField: "post_id",
+          as: "likes",
+        },
+      },
+      {
+        $match: { "likes.0": { $exists: false } },
+      },
+    ]).toArray();
+
+    const { deletedCount } = await this.db.collection("posts").deleteMany({
+      _id: { $in: postsWithoutLikes.map((p) => p._id) },
+    });
+    return { affected: deletedCount };
+  }
+
+  // Normalized, the $lookups read the username and count the likes
+  async renameUser(userId: number, username: string) {
+    await this.db.collection("users").updateOne(
+      { _id: toObjectId(userId) },
+      { $set: { username } },
+    );
+  }
+
+  async addLike(postId: number, userId: number) {
+    await this.db.collection("likes").insertOne({
+      post_id: toObjectId(postId),
+      user_id: toObjectId(userId),
+      created_at: new Date(),
+    });
+  }
+
+  async removeLike(postId: number, userId: number) {
+    await this.db.collection("likes").deleteOne({
+      post_id: toObjectId(postId),
+      user_id: toObjectId(userId),
+    });
+  }
+}
+
+export class MongoIndexedAdapter extends MongoAdapter implements IndexAdapter {
+  readonly suite: Suite = "indexed";
+
+  async seed(data: TestData) {
+    await super.seed(data);
+
+    // Built before the writes so inserts pay for index maintenance
+    await this.createIndexes();
+  }
+
+  async cleanup() {
+    await super.cleanup();
+
+    // Keep the other Mongo variants on the same database unindexed
+    await this.dropIndexes();
+  }
+
+  async createIndexes() {
+    for (const { collection, name, keys } of SECONDARY_INDEXES) {
+      await this.db.collection(collection).createIndex(keys, { name });
+    }
+  }
+
+  async dropIndexes() {
+    for (const { collection, name } of SECONDARY_INDEXES) {
+      await this.db.collection(collection).dropIndex(name).catch(() => {});
+    }
+  }
+
+  async indexSize() {
+    let bytes = 0;
+    for (const collection of new Set(SECONDARY_INDEXES.map((index) => index.collection))) {
+      const [stats] = await this.db.collection(collection)
+        .aggregate([{ $collStats: { storageStats: {} } }])
+        .toArray();
+      const sizes: Record<string, number> = stats?.storageStats.indexSizes ?? {};
+      bytes += SECONDARY_INDEXES
+        .filter((index) => index.collection === collection)
+        .reduce((sum, index) => sum + (sizes[index.name] ?? 0), 0);
+    }
+    return bytes;
+  }
+
+  async writes() {
+    const postOps = this.db.collection("posts").initializeUnorderedBulkOp();
+    this.docs.posts.forEach((post) => {
+      postOps.insert(post);
+    });
+
+    const likeOps = this.db.collection("likes").initializeUnorderedBulkOp();
+    this.docs.likes.forEach((like) => {
+      likeOps.insert(like);
+    });
+
+    try {
+      const [posts, likes] = await Promise.all([
+        postOps.execute(),
+        likeOps.execute(),
+      ]);
+      return { affected: posts.insertedCount + likes.insertedCount };
+    } catch (error) {
+      console.log("Some documents were skipped due to duplicates");
+      return { affected: (error as MongoBulkWriteError).insertedCount };
+    }
+  }
+
+  async simpleRead() {
+    // Use basic index
+    const rows = await this.db.collection("posts")
+      .find()
+      .toArray();
+    return { rows };
+  }
+
+  async filteredRead() {
+    // Use single field index only
+    const rows = await this.db.collection("posts")
+      .find({ status: "active" })
+      .hint({ status: 1 })
+      .toArray();
+    return { rows };
+  }
+
+  async projectedRead() {
+    // Use compound index on status and created_at
+    const rows = await this.db.collection("posts")
+      .find(
+        { status: "active" },
+        { projection: { title: 1, created_at: 1 } },
+      )
+      .hint({ "status": 1, "created_at": -1 }) // Match exactly with seed
+      .toArray();
+    return { rows };
+  }
+
+  async sortedRead() {
+    const rows = await this.db.collection("posts")
+      .find()
+      .sort({ created_at: -1 })
+      .hint({ "created_at": 1 }) // Match exactly with seed
+      .toArray();
+    return { rows };
+  }
+
+  async update() {
+    const { matchedCount } = await this.db.collection("posts").updateMany(
+      { status: "active" },
+      { $set: { status: "archived" } },
+    ); // Remove hint for update as it's not needed
+    return { affected: matchedCount };
+  }
+
+  async delete() {
+    const { deletedCount } = await this.db.collection("posts").deleteMany(
+      { status: "archived" },
+    ); // Remove hint for delete as it's not needed
+    return { affected: deletedCount };
+  }
+}
+
+// Index on the embedded author, renaming a user finds the copies through it
+const AUTHOR_INDEX = "user._id_1";
+
+// Posts embed their author and keep a like_count, see MongoPost. The likes
+// stay a collection of their own, they are the source of the count.
+export class MongoEmbeddedAdapter extends MongoRelationsAdapter {
+  // Embedded into the posts of a streamed load, its users come first
+  private authors = new Map<number, ReturnType<typeof toUserDocument>>();
+
+  async seed(data: TestData) {
+    // Loads the users like a streamed load, which keeps them as the authors
+    await super.seed(data);
+
+    // Duplicate likes are skipped on insert and not counted
+    const liked = new Set(data.likes.map((like) => `${like.post_id}:${like.user_id}`));
+    const likeCounts = new Map<number, number>();
+    for (const key of liked) {
+      const postId = Number(key.split(":")[0]);
+      likeCounts.set(postId, (likeCounts.get(postId) ?? 0) + 1);
+    }
+
+    const posts = data.posts.map((post, i) => ({
+      ...this.docs.posts[i],
+      user: this.authors.get(post.user_id),
+      like_count: likeCounts.get(post.id) ?? 0,
+    }));
+    this.docs = { ...this.docs, posts };
+  }
+
+  async cleanup() {
+    await super.cleanup();
+    this.authors.clear();
+
+    // The other Mongo variants share the posts collection
+    await this.db.collection("posts").dropIndex(AUTHOR_INDEX).catch(() => {});
+  }
+
+  // Posts embed the authors loaded before them, every likes batch increments
+  // the like_count of its posts
+  async loadBatch(batch: DataBatch) {
+    switch (batch.table) {
+      case "users": {
+        if (this.authors.size === 0) {
+          await this.db.collection("posts").createIndex({ "user._id": 1 }, { name: AUTHOR_INDEX });
+        }
+        const users = batch.rows.map(toUserDocument);
+        users.forEach((user, i) => this.authors.set(batch.rows[i].id, user));
+        return (await this.db.collection("users").insertMany(users)).insertedCount;
+      }
+      case "posts": {
+        const posts = batch.rows.map((post) => ({
+          ...toPostDocument(post),
+          user: this.authors.get(post.user_id),
+          like_count: 0,
+        }));
+        return (await this.db.collection("posts").insertMany(posts)).insertedCount;
+      }
+      case "likes": {
+        const counts = new Map<number, number>();
+        for (const like of batch.rows) {
+          counts.set(like.post_id, (counts.get(like.post_id) ?? 0) + 1);
+        }
+        const { insertedCount } = await this.db.collection("likes")
+          .insertMany(batch.rows.map(toLikeDocument));
+        await this.db.collection("posts").bulkWrite([...counts].map(([postId, count]) => ({
+          updateOne: {
+            filter: { _id: toObjectId(postId) },
+            update: { $inc: { like_count: count } },
+          },
+        })));
+        return insertedCount;
+      }
+    }
+  }
+
+  async simpleRead() {
+    const rows = await this.db.collection("posts").find().toArray();
+    return { rows };
+  }
+
+  async filteredRead() {
+    const rows = await this.db.collection("posts").find({
+      status: "active",
+      like_count: { $gt: 0 },
+    }).toArray();
+    return { rows };
+  }
+
+  async projectedRead() {
+    const rows = await this.db.collection("posts").find({ status: "active" }, {
+      projection: {
+        title: 1,
+        created_at: 1,
+        "user.username": 1,
+        likeCount: "$like_count",
+      },
+    }).toArray();
+    return { rows };
+  }
+
+  async sortedRead() {
+    const rows = await this.db.collection("posts")
+      .find({ status: "active" }, {
+        projection: {
+          title: 1,
+          created_at: 1,
+          "user.username": 1,
+          likeCount: "$like_count",
+        },
+      })
+      .sort({ created_at: -1, title: 1 })
+      .toArray();
+    return { rows };
+  }
+
+  async update() {
+    const { matchedCount } = await this.db.collection("posts").updateMany(
+      { like_count: { $gt: 0 } },
+      { $set: { status: "trending" } },
+    );
+    return { affected: matchedCount };
+  }
+
+  async delete() {
+    const { deletedCount } = await this.db.collection("posts").deleteMany({
+      like_count: 0,
+    });
+    return { affected: deletedCount };
+  }
+
+  // The copies are updated without a transaction, those need a replica set.
+  // Readers can see the new like before the new count.
+  async renameUser(userId: number, username: string) {
+    await super.renameUser(userId, username);
+    await this.db.collection("posts").updateMany(
+      { "user._id": toObjectId(userId) },
+      { $set: { "user.username": username } },
+    );
+  }
+
+  async addLike(postId: number, userId: number) {
+    await super.addLike(postId, userId);
+    await this.db.collection("posts").updateOne(
+      { _id: toObjectId(postId) },
+      { $inc: { like_count: 1 } },
+    );
+  }
+
+  async removeLike(postId: number, userId: number) {
+    const { deletedCount } = await this.db.collection("likes").deleteOne({
+      post_id: toObjectId(postId),
+      user_id: toObjectId(userId),
+    });
+    if (deletedCount === 0) return;
+    await this.db.collection("posts").updateOne(
+      { _id: toObjectId(postId) },
+      { $inc: { like_count: -1 } },
+    );
+  }
+
+  async insertPost(post: PostRecord) {
+    const user = await this.db.collection("users").findOne({ _id: toObjectId(post.user_id) });
+    await this.db.collection("posts").insertOne({ ...toPostDocument(post), user, like_count: 0 });
+  }
+
+  async transferPost(mode: TransactionMode, postId: number, toUserId: number) {
+    return this.transaction(async (session) => {
+      const post = await this.db.collection("posts")
+        .findOne({ _id: toObjectId(postId) }, { session });
+      if (!post) throw new Error(`Post ${postId} not found`);
+      const user = await this.db.collection("users")
+        .findOne({ _id: toObjectId(toUserId) }, { session });
+      if (!user) throw new Error(`User ${toUserId} not found`);
+      await this.db.collection("posts").updateOne(
+        { _id: post._id },
+        { $set: { user_id: user._id, user } },
+        { session },
+      );
+    });
+  }
+}
@@ -0,0 +1,349 @@
+import { PrismaClient } from "@prisma/client";
+import { SQL } from "bun";
+import type {
+  ConnectOptions,
+  Engine,
+  OperationOutcome,
+  Suite,
+  TestData,
+} from "../types";
+import type { DatabaseAdapter, StorageAdapter } from "./adapter";
+import {
+  COMPACT_STATEMENT,
+  STORAGE_SIZE_QUERY,
+  toStorageSizes,
+  withConnectionLimit,
+  type StorageSizeRow,
+} from "./postgres";
+
+// Runs SQL with $1, $2, ... placeholders
+export interface SqlClient {
+  connect(): Promise<void>;
+  close(): Promise<void>;
+  query<T = Record<string, unknown>>(text: string, params?: unknown[]): Promise<T[]>;
+  execute(text: string, params?: unknown[]): Promise<number>;  // Affected rows
+}
+
+// Bun's built-in Postgres driver, no query builder or query engine in between
+export function bunSqlClient(options: ConnectOptions): SqlClient {
+  // Prisma's schema and connection_limit parameters mean nothing to the driver
+  const url = new URL(process.env.DATABASE_URL!);
+  url.searchParams.delete("schema");
+  url.searchParams.delete("connection_limit");
+  const sql = new SQL(url, { max: options.poolSize });
+
+  return {
+    connect: async () => {
+      await sql.connect();
+    },
+    close: () => sql.close(),
+    query: (text, params = []) => sql.unsafe(text, params),
+    execute: async (text, params = []) => {
+      const result: { count: number } = await sql.unsafe(text, params);
+      return result.count;
+    },
+  };
+}
+
+// The SQL goes through Prisma's query engine, but skips its query builder
+export function prismaRawClient(options: ConnectOptions): SqlClient {
+  const prisma = new PrismaClient({
+    ...(options.poolSize !== undefined && {
+      datasourceUrl: withConnectionLimit(process.env.DATABASE_URL!, options.poolSize),
+    }),
+  });
+
+  return {
+    connect: () => prisma.$connect(),
+    close: () => prisma.$disconnect(),
+    query: (text, params = []) => prisma.$queryRawUnsafe(text, ...params),
+    execute: (text, params = []) => prisma.$executeRawUnsafe(text, ...params),
+  };
+}
+
+// Prisma's query engine splits createMany at this many bind parameters, the
+// raw inserts do the same
+const MAX_PARAMETERS = 32767;
+
+// Implements the operations of the Prisma variant with the same suite in plain
+// SQL, so the difference between the two is the ORM overhead
+abstract class RawPostgresAdapter implements DatabaseAdapter, StorageAdapter {
+  readonly key: string;
+  readonly label: string;
+  readonly engine: Engine = "postgres";
+  abstract readonly suite: Suite;
+  abstract readonly mirrors: string;
+
+  protected client!: SqlClient;
+  protected data: TestData = { users: [], posts: [], likes: [], follows: [] };
+  // Created on connect, like the Prisma and MongoDB clients
+  private createClient: (options: ConnectOptions) => SqlClient;
+
+  constructor(key: string, label: string, createClient: (options: ConnectOptions) => SqlClient) {
+    this.key = key;
+    this.label = label;
+    this.createClient = createClient;
+  }
+
+  async connect(options: ConnectOptions = {}) {
+    this.client = this.createClient(options);
+    await this.client.connect();
+  }
+
+  async disconnect() {
+    await this.client.close();
+  }
+
+  async storageSize() {
+    await this.client.execute(COMPACT_STATEMENT);
+    return toStorageSizes(await this.client.query<StorageSizeRow>(STORAGE_SIZE_QUERY));
+  }
+
+  async seed(data: TestData) {
+    this.data = data;
+    await this.insertRows(
+      "User",
+      ["id", "username", "role", "created_at"],
+      data.users.map((u) => [u.id, u.username, u.role, u.created_at]),
+    );
+  }
+
+  async cleanup() {
+    await this.client.execute(`DELETE FROM "Like"`);
+    await this.client.execute(`DELETE FROM "Follows"`);
+    await this.client.execute(`DELETE FROM "Post"`);
+    await this.client.execute(`DELETE FROM "User"`);
+  }
+
+  // Multi-row INSERTs like createMany, returns the number of inserted rows
+  protected async insertRows(
+    table: string,
+    columns: string[],
+    rows: unknown[][],
+    suffix = "",
+  ): Promise<number> {
+    const batchSize = Math.floor(MAX_PARAMETERS / columns.length);
+    let inserted = 0;
+
+    for (let start = 0; start < rows.length; start += batchSize) {
+      const batch = rows.slice(start, start + batchSize);
+      const values = batch.map((row, i) =>
+        `(${row.map((_, j) => `$${i * columns.length + j + 1}`).join(", ")})`
+      );
+      inserted += await this.client.execute(
+        `INSERT INTO "${table}" (${columns.join(", ")}) VALUES ${values.join(", ")}${suffix}`,
+        batch.flat(),
+      );
+    }
+    return inserted;
+  }
+
+  protected insertPosts() {
+    return this.insertRows(
+      "Post",
+      ["id", "title", "body", "status", "created_at", "user_id"],
+      this.data.posts.map((p) => [p.id, p.title, p.body, p.status, p.created_at, p.user_id]),
+    );
+  }
+
+  abstract writes(): Promise<OperationOutcome>;
+  abstract simpleRead(): Promise<OperationOutcome>;
+  abstract filteredRead(): Promise<OperationOutcome>;
+  abstract projectedRead(): Promise<OperationOutcome>;
+  abstract sortedRead(): Promise<OperationOutcome>;
+  abstract update(): Promise<OperationOutcome>;
+  abstract delete(): Promise<OperationOutcome>;
+
+  async postsPerUser() {
+    await this.client.query(`
+      SELECT u.username, COUNT(p.id)::int AS post_count
+      FROM "User" u
+      LEFT JOIN "Post" p ON u.id = p.user_id
+      GROUP BY u.id
+      ORDER BY post_count DESC
+    `);
+  }
+
+  async avgLikesPerPost() {
+    await this.client.query(`
+      SELECT AVG(like_count)
+      FROM (
+        SELECT COUNT(l.post_id) as like_count
+        FROM "Post" p
+        LEFT JOIN "Like" l ON p.id = l.post_id
+        GROUP BY p.id
+      ) counts
+    `);
+  }
+
+  async mostActiveUsers() {
+    await this.client.query(`
+      SELECT
+        u.username,
+        COUNT(DISTINCT p.id)::int AS post_count,
+        COUNT(l.post_id)::int AS total_likes
+      FROM "User" u
+      LEFT JOIN "Post" p ON u.id = p.user_id
+      LEFT JOIN "Like" l ON p.id = l.post_id
+      GROUP BY u.id
+      ORDER BY post_count DESC
+      LIMIT 10
+    `);
+  }
+
+  async mostLikedPosts() {
+    await this.client.query(`
+      SELECT p.title, u.username, COUNT(l.user_id)::int AS like_count
+      FROM "Post" p
+      JOIN "User" u ON u.id = p.user_id
+      LEFT JOIN "Like" l ON p.id = l.post_id
+      GROUP BY p.id, u.username
+      ORDER BY like_count DESC
+      LIMIT 10
+    `);
+  }
+
+  async userEngagement() {
+    await this.client.query(`
+      SELECT
+        u.username,
+        COUNT(DISTINCT p.id)::int as post_count,
+        COUNT(DISTINCT l.post_id)::int as likes_given,
+        COUNT(DISTINCT pl.user_id)::int as likes_received
+      FROM "User" u
+      LEFT JOIN "Post" p ON u.id = p.user_id
+      LEFT JOIN "Like" l ON u.id = l.user_id
+      LEFT JOIN "Like" pl ON p.id = pl.post_id
+      GROUP BY u.id, u.username
+      ORDER BY (
+        COUNT(DISTINCT p.id) +
+        COUNT(DISTINCT l.post_id) +
+        COUNT(DISTINCT pl.user_id)
+      ) DESC
+      LIMIT 10
+    `);
+  }
+}
+
+export class PostgresRawBasicAdapter extends RawPostgresAdapter {
+  readonly suite: Suite = "basic";
+  readonly mirrors = "postgresBasic";
+
+  async writes() {
+    return { affected: await this.insertPosts() };
+  }
+
+  async simpleRead() {
+    const rows = await this.client.query(`SELECT * FROM "Post"`);
+    return { rows };
+  }
+
+  async filteredRead() {
+    const rows = await this.client.query(`SELECT * FROM "Post" WHERE status = $1`, ["active"]);
+    return { rows };
+  }
+
+  async projectedRead() {
+    const rows = await this.client.query(`SELECT title, created_at FROM "Post"`);
+    return { rows };
+  }
+
+  async sortedRead() {
+    const rows = await this.client.query(`SELECT * FROM "Post" ORDER BY created_at DESC`);
+    return { rows };
+  }
+
+  async update() {
+    const affected = await this.client.execute(
+      `UPDATE "Post" SET status = $1 WHERE status = $2`,
+      ["archived", "active"],
+    );
+    return { affected };
+  }
+
+  async delete() {
+    const affected = await this.client.execute(
+      `DELETE FROM "Post" WHERE status = $1`,
+      ["archived"],
+    );
+    return { affected };
+  }
+}
+
+// The user and likes are nested as JSON like Prisma's include returns them
+const RELATIONAL_SELECT = `
+  SELECT p.*, to_jsonb(u) AS "user",
+    COALESCE((SELECT jsonb_agg(l) FROM "Like" l WHERE l.post_id = p.id), '[]') AS likes
+  FROM "Post" p
+  JOIN "User" u ON u.id = p.user_id
+`;
+
+const PROJECTED_SELECT = `
+  SELECT p.title, p.created_at,
+    jsonb_build_object('username', u.username) AS "user",
+    jsonb_build_object(
+      'likes', (SELECT COUNT(*) FROM "Like" l WHERE l.post_id = p.id)::int
+    ) AS "_count"
+  FROM "Post" p
+  JOIN "User" u ON u.id = p.user_id
+  WHERE p.status = 'active'
+`;
+
+export class PostgresRawRelationsAdapter extends RawPostgresAdapter {
+  readonly suite: Suite = "relational";
+  readonly mirrors = "postgresWithRelations";
+
+  async writes() {
+    const posts = await this.insertPosts();
+    const likes = await this.insertRows(
+      "Like",
+      ["post_id", "user_id"],
+      this.data.likes.map((l) => [l.post_id, l.user_id]),
+      // Same as skipDuplicates
+      " ON CONFLICT DO NOTHING",
+    );
+    return { affected: posts + likes };
+  }
+
+  async simpleRead() {
+    const rows = await this.client.query(RELATIONAL_SELECT);
+    return { rows };
+  }
+
+  async filteredRead() {
+    const rows = await this.client.query(`${RELATIONAL_SELECT}
+      WHERE p.status = 'active'
+        AND EXISTS (SELECT 1 FROM "Like" l WHERE l.post_id = p.id)
+    `);
+    return { rows };
+  }
+
+  async projectedRead() {
+    const rows = await this.client.query(PROJECTED_SELECT);
+    return { rows };
+  }
+
+  async sortedRead() {
+    const rows = await this.client.query(`${PROJECTED_SELECT}
+      ORDER BY p.created_at DESC, p.title ASC
+    `);
+    return { rows };
+  }
+
+  async update() {
+    const affected = await this.client.execute(`
+      UPDATE "Post" p SET status = 'trending'
+      WHERE EXISTS (SELECT 1 FROM "Like" l WHERE l.post_id = p.id)
+    `);
+    return { affected };
+  }
+
+  async delete() {
+    // Delete posts with no likes
+    const affected = await this.client.execute(`
+      DELETE FROM "Post" p
+      WHERE NOT EXISTS (SELECT 1 FROM "Like" l WHERE l.post_id = p.id)
+    `);
+    return { affected };
+  }
+}
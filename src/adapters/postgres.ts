@@ -0,0 +1,902 @@
+import { Prisma, PrismaClient } from "@prisma/client";
+import type {
+  ConnectOptions,
+  DataBatch,
+  Engine,
+  OperationOutcome,
+  PostRecord,
+  QueryPlan,
+  SearchMethod,
+  SearchQuery,
+  StorageSize,
+  Suite,
+  TestData,
+  TransactionMode,
+} from "../types";
+import {
+  FEED_PAGE_SIZE,
+  loadUsers,
+  retryTransaction,
+  SEARCH_LIMIT,
+  type BulkLoadAdapter,
+  TIMELINE_PAGE_SIZE,
+  TIMELINE_PAGES,
+  truncateQuery,
+  type DatabaseAdapter,
+  type ExplainAdapter,
+  type FeedCursor,
+  type GraphAdapter,
+  type IndexAdapter,
+  type MaintenanceAdapter,
+  type PaginationAdapter,
+  type SearchAdapter,
+  type StorageAdapter,
+  type TransactionAdapter,
+  type WorkloadAdapter,
+} from "./adapter";
+
+// Prisma reads the pool size from the connection string
+export function withConnectionLimit(databaseUrl: string, poolSize: number): string {
+  const url = new URL(databaseUrl);
+  url.searchParams.set("connection_limit", String(poolSize));
+  return url.toString();
+}
+
+// Secondary indexes of the indexed variant, the same as on MongoDB, named
+// like Prisma names @@index indexes
+const SECONDARY_INDEXES = [
+  { name: "Post_user_id_idx", on: `"Post"(user_id)` },
+  { name: "Post_status_idx", on: `"Post"(status)` },
+  { name: "Post_created_at_idx", on: `"Post"(created_at)` },
+  { name: "Post_status_created_at_idx", on: `"Post"(status, created_at DESC)` },
+  { name: "Like_user_id_idx", on: `"Like"(user_id)` },
+];
+
+// Feed order of the pagination suite, not part of the Prisma schema
+const FEED_INDEX = { name: "Post_created_at_id_idx", on: `"Post"(created_at DESC, id DESC)` };
+
+// Searched text of a post, the indexes are on these expressions so the
+// queries can use them
+const SEARCH_TEXT = `(title || ' ' || body)`;
+const SEARCH_VECTOR = `to_tsvector('english', ${SEARCH_TEXT})`;
+
+const SEARCH_INDEXES: Partial<Record<SearchMethod, { name: string, on: string }>> = {
+  tsvector: { name: "Post_search_tsvector_idx", on: `"Post" USING GIN (${SEARCH_VECTOR})` },
+  trigram: { name: "Post_search_trgm_idx", on: `"Post" USING GIN (${SEARCH_TEXT} gin_trgm_ops)` },
+};
+
+// Rewrites the tables and their indexes without dead rows
+export const COMPACT_STATEMENT = `VACUUM FULL "User", "Post", "Like", "Follows"`;
+
+// pg_table_size includes the TOAST table, the sum of both is pg_total_relation_size
+export const STORAGE_SIZE_QUERY = `
+  SELECT c.relname AS name,
+    pg_table_size(c.oid) AS data_bytes,
+    pg_indexes_size(c.oid) AS index_bytes
+  FROM pg_class c
+  WHERE c.relkind = 'r'
+    AND c.relnamespace = current_schema()::regnamespace
+    AND c.relname IN ('User', 'Post', 'Like', 'Follows')
+`;
+
+export interface StorageSizeRow {
+  name: string;
+  data_bytes: bigint | string;  // int8, Bun's driver returns it as a string
+  index_bytes: bigint | string;
+}
+
+export function toStorageSizes(rows: StorageSizeRow[]): Record<string, StorageSize> {
+  return Object.fromEntries(rows.map((row) => [row.name, {
+    dataBytes: Number(row.data_bytes),
+    indexBytes: Number(row.index_bytes),
+  }]));
+}
+
+// Statements worth explaining, Prisma also logs BEGIN, COMMIT and the like
+const EXPLAINABLE = /^\s*(SELECT|INSERT|UPDATE|DELETE|WITH)\b/i;
+
+// Thrown to roll back the transaction the plans are captured in
+class Rollback extends Error {}
+
+// Prisma logs the parameters as a JSON array
+function sqlLiteral(value: unknown): string {
+  if (value === null || value === undefined) return "NULL";
+  if (typeof value === "number" || typeof value === "bigint") return String(value);
+  if (typeof value === "boolean") return value ? "TRUE" : "FALSE";
+  const text = typeof value === "string" ? value : JSON.stringify(value);
+  return `'${text.replace(/'/g, "''")}'`;
+}
+
+interface PlanNode {
+  "Node Type": string;
+  "Relation Name"?: string;
+  "Index Name"?: string;
+  Plans?: PlanNode[];
+}
+
+function summarizePlan(node: PlanNode, scans: Set<string>, indexes: Set<string>) {
+  if (node["Node Type"] === "Seq Scan" && node["Relation Name"]) {
+    scans.add(node["Relation Name"]);
+  }
+  if (node["Index Name"]) indexes.add(node["Index Name"]);
+  node.Plans?.forEach((child) => summarizePlan(child, scans, indexes));
+}
+
+// Serializable transactions fail on conflicting writes instead of losing one
+const TRANSACTION_OPTIONS = {
+  isolationLevel: Prisma.TransactionIsolationLevel.Serializable,
+};
+
+// P2034: write conflict or deadlock, the transaction can be retried
+const isWriteConflict = (error: unknown) =>
+  error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2034";
+
+abstract class PrismaAdapter implements
+  DatabaseAdapter,
+  GraphAdapter,
+  WorkloadAdapter,
+  ExplainAdapter,
+  TransactionAdapter,
+  PaginationAdapter,
+  SearchAdapter,
+  StorageAdapter,
+  BulkLoadAdapter {
+  readonly key: string;
+  readonly label: string;
+  readonly engine: Engine = "postgres";
+  abstract readonly suite: Suite;
+  readonly target?: string;
+  readonly transactionModes: TransactionMode[] = ["interactive", "batched"];
+  readonly searchMethods: SearchMethod[] = ["tsvector", "trigram", "ilike"];
+
+  protected prisma!: PrismaClient;
+  protected data: TestData = { users: [], posts: [], likes: [], follows: [] };
+  // Queries sent while an operation is explained
+  private recorded: Prisma.QueryEvent[] | null = null;
+  // Resolved on connect like the MongoDB URL, setupDocker sets DATABASE_URL
+  private url: () => string;
+
+  constructor(
+    key: string,
+    label: string,
+    url: () => string = () => process.env.DATABASE_URL!,
+    target?: string,
+  ) {
+    this.key = key;
+    this.label = label;
+    this.url = url;
+    this.target = target;
+  }
+
+  async connect(options: ConnectOptions = {}) {
+    const client = new PrismaClient<Prisma.PrismaClientOptions, "query">({
+      datasourceUrl: options.poolSize === undefined
+        ? this.url()
+        : withConnectionLimit(this.url(), options.poolSize),
+      // Query events cost a little on every query, only emitted when needed
+      ...(options.captureQueries && {
+        log: [{ emit: "event", level: "query" }],
+      }),
+    });
+    if (options.captureQueries) {
+      client.$on("query", (event) => this.recorded?.push(event));
+    }
+    this.prisma = client;
+    await this.prisma.$connect();
+  }
+
+  async explain(run: () => Promise<unknown>, restore: () => Promise<void>) {
+    const recorded: Prisma.QueryEvent[] = [];
+    this.recorded = recorded;
+    try {
+      await run();
+    } finally {
+      this.recorded = null;
+    }
+    await restore();
+    const queries = recorded.filter((event) => EXPLAINABLE.test(event.query));
+
+    // ANALYZE executes the statements, the rollback undoes their writes. The
+    // statements are prepared so Postgres infers the parameter types.
+    const plans: QueryPlan[] = [];
+    await this.prisma.$transaction(async (tx) => {
+      for (const [i, { query, params }] of queries.entries()) {
+        const values: unknown[] = JSON.parse(params);
+        await tx.$executeRawUnsafe(`PREPARE explain_${i} AS ${query}`);
+        const args = values.length > 0 ? `(${values.map(sqlLiteral).join(", ")})` : "";
+        const [row] = await tx.$queryRawUnsafe<{ "QUERY PLAN": { Plan: PlanNode }[] }[]>(
+          `EXPLAIN (ANALYZE, BUFFERS, FORMAT JSON) EXECUTE explain_${i}${args}`,
+        );
+        // Prepared statements outlive the rollback
+        await tx.$executeRawUnsafe(`DEALLOCATE explain_${i}`);
+
+        const scans = new Set<string>();
+        const indexes = new Set<string>();
+        summarizePlan(row["QUERY PLAN"][0].Plan, scans, indexes);
+        plans.push({
+          query: truncateQuery(query),
+          plan: row["QUERY PLAN"],
+          sequentialScans: [...scans],
+          indexes: [...indexes],
+        });
+      }
+      throw new Rollback();
+    }, { timeout: 10 * 60_000 }).catch((error) => {
+      if (!(error instanceof Rollback)) throw error;
+    });
+    return plans;
+  }
+
+  async disconnect() {
+    await this.prisma.$disconnect();
+  }
+
+  async storageSize() {
+    await this.prisma.$executeRawUnsafe(COMPACT_STATEMENT);
+    return toStorageSizes(await this.prisma.$queryRawUnsafe<StorageSizeRow[]>(STORAGE_SIZE_QUERY));
+  }
+
+  async seed(data: TestData) {
+    this.data = data;
+    await loadUsers(this, data.users);
+  }
+
+  async loadBatch(batch: DataBatch) {
+    switch (batch.table) {
+      case "users":
+        return (await this.prisma.user.createMany({ data: batch.rows })).count;
+      case "posts":
+        return (await this.prisma.post.createMany({ data: batch.rows })).count;
+      case "likes":
+        return (await this.prisma.like.createMany({
+          data: batch.rows.map((like) => ({ post_id: like.post_id, user_id: like.user_id })),
+        })).count;
+    }
+  }
+
+  async cleanup() {
+    await this.prisma.like.deleteMany({});
+    await this.prisma.follows.deleteMany({});
+    await this.prisma.post.deleteMany({});
+    await this.prisma.user.deleteMany({});
+  }
+
+  abstract writes(): Promise<OperationOutcome>;
+  abstract simpleRead(): Promise<OperationOutcome>;
+  abstract filteredRead(): Promise<OperationOutcome>;
+  abstract projectedRead(): Promise<OperationOutcome>;
+  abstract sortedRead(): Promise<OperationOutcome>;
+  abstract update(): Promise<OperationOutcome>;
+  abstract delete(): Promise<OperationOutcome>;
+
+  async postsPerUser() {
+    await this.prisma.user.findMany({
+      select: {
+        username: true,
+        _count: {
+          select: { posts: true },
+        },
+      },
+      orderBy: {
+        posts: { _count: "desc" },
+      },
+    });
+  }
+
+  async avgLikesPerPost() {
+    await this.prisma.$queryRaw`
+      SELECT AVG(like_count)
+      FROM (
+        SELECT COUNT(l.post_id) as like_count
+        FROM "Post" p
+        LEFT JOIN "Like" l ON p.id = l.post_id
+        GROUP BY p.id
+      ) counts
+    `;
+  }
+
+  async mostActiveUsers() {
+    await this.prisma.user.findMany({
+      select: {
+        username: true,
+        posts: {
+          select: {
+            _count: {
+              select: { likes: true },
+            },
+          },
+        },
+        _count: {
+          select: { posts: true },
+        },
+      },
+      orderBy: {
+        posts: { _count: "desc" },
+      },
+      take: 10,
+    });
+  }
+
+  async mostLikedPosts() {
+    await this.prisma.post.findMany({
+      select: {
+        title: true,
+        user: {
+          select: { username: true },
+        },
+        _count: {
+          select: { likes: true },
+        },
+      },
+      orderBy: {
+        likes: { _count: "desc" },
+      },
+      take: 10,
+    });
+  }
+
+  async userEngagement() {
+    await this.prisma.$queryRaw`
+      SELECT
+        u.username,
+        COUNT(DISTINCT p.id) as post_count,
+        COUNT(DISTINCT l.post_id) as likes_given,
+        COUNT(DISTINCT pl.user_id) as likes_received
+      FROM "User" u
+      LEFT JOIN "Post" p ON u.id = p.user_id
+      LEFT JOIN "Like" l ON u.id = l.user_id
+      LEFT JOIN "Like" pl ON p.id = pl.post_id
+      GROUP BY u.id, u.username
+      ORDER BY (
+        COUNT(DISTINCT p.id) +
+        COUNT(DISTINCT l.post_id) +
+        COUNT(DISTINCT pl.user_id)
+      ) DESC
+      LIMIT 10
+    `;
+  }
+
+  async followWrites() {
+    await this.prisma.follows.createMany({ data: this.data.follows });
+  }
+
+  async followCounts(userId: number) {
+    await this.prisma.follows.count({ where: { followed_user_id: userId } });
+    await this.prisma.follows.count({ where: { following_user_id: userId } });
+  }
+
+  async mutualFollows(userId: number) {
+    await this.prisma.$queryRaw`
+      SELECT f1.followed_user_id
+      FROM "Follows" f1
+      JOIN "Follows" f2
+        ON f2.following_user_id = f1.followed_user_id
+       AND f2.followed_user_id = f1.following_user_id
+      WHERE f1.following_user_id = ${userId}
+    `;
+  }
+
+  async friendsOfFriends(userId: number) {
+    await this.prisma.$queryRaw`
+      SELECT f2.followed_user_id AS user_id, COUNT(*) AS mutual_count
+      FROM "Follows" f1
+      JOIN "Follows" f2 ON f2.following_user_id = f1.followed_user_id
+      WHERE f1.following_user_id = ${userId}
+        AND f2.followed_user_id <> ${userId}
+        AND NOT EXISTS (
+          SELECT 1 FROM "Follows" f3
+          WHERE f3.following_user_id = ${userId}
+            AND f3.followed_user_id = f2.followed_user_id
+        )
+      GROUP BY f2.followed_user_id
+      ORDER BY mutual_count DESC, user_id
+      LIMIT 10
+    `;
+  }
+
+  async homeTimeline(userId: number) {
+    // Fan-out on read: resolve the followed users, then page through their posts
+    const followed = await this.prisma.follows.findMany({
+      where: { following_user_id: userId },
+      select: { followed_user_id: true },
+    });
+    const userIds = followed.map((f) => f.followed_user_id);
+
+    for (let page = 0; page < TIMELINE_PAGES; page++) {
+      await this.prisma.post.findMany({
+        where: { user_id: { in: userIds } },
+        orderBy: [{ created_at: "desc" }, { id: "desc" }],
+        skip: page * TIMELINE_PAGE_SIZE,
+        take: TIMELINE_PAGE_SIZE,
+      });
+    }
+  }
+
+  async offsetPage(page: number) {
+    const posts = await this.prisma.post.findMany({
+      orderBy: [{ created_at: "desc" }, { id: "desc" }],
+      skip: page * FEED_PAGE_SIZE,
+      take: FEED_PAGE_SIZE,
+    });
+    return posts.map((post) => post.id);
+  }
+
+  async keysetPage(cursor: FeedCursor | null) {
+    // Prisma looks up the cursor's created_at by id and filters on it
+    const posts = await this.prisma.post.findMany({
+      orderBy: [{ created_at: "desc" }, { id: "desc" }],
+      ...(cursor && { cursor: { id: cursor.id }, skip: 1 }),
+      take: FEED_PAGE_SIZE,
+    });
+    return posts.map((post) => post.id);
+  }
+
+  async createFeedIndex() {
+    await this.prisma.$executeRawUnsafe(
+      `CREATE INDEX IF NOT EXISTS "${FEED_INDEX.name}" ON ${FEED_INDEX.on}`,
+    );
+  }
+
+  async dropFeedIndex() {
+    await this.prisma.$executeRawUnsafe(`DROP INDEX IF EXISTS "${FEED_INDEX.name}"`);
+  }
+
+  async createSearchIndex(method: SearchMethod) {
+    const index = SEARCH_INDEXES[method];
+    if (!index) return;
+    if (method === "trigram") {
+      await this.prisma.$executeRawUnsafe(`CREATE EXTENSION IF NOT EXISTS pg_trgm`);
+    }
+    await this.prisma.$executeRawUnsafe(`CREATE INDEX IF NOT EXISTS "${index.name}" ON ${index.on}`);
+  }
+
+  async dropSearchIndex(method: SearchMethod) {
+    const index = SEARCH_INDEXES[method];
+    if (index) await this.prisma.$executeRawUnsafe(`DROP INDEX IF EXISTS "${index.name}"`);
+  }
+
+  async searchIndexSize(method: SearchMethod) {
+    const [{ bytes }] = await this.prisma.$queryRaw<{ bytes: bigint | null }[]>`
+      SELECT pg_relation_size(oid)::bigint AS bytes
+      FROM pg_class
+      WHERE relkind = 'i' AND relname = ${SEARCH_INDEXES[method]?.name ?? ""}
+    `;
+    return Number(bytes ?? 0);
+  }
+
+  async search(method: SearchMethod, { terms, phrase }: SearchQuery) {
+    if (method === "tsvector") {
+      // Stemmed terms, ranked by how often they occur
+      const toQuery = phrase ? "phraseto_tsquery" : "plainto_tsquery";
+      await this.prisma.$queryRawUnsafe(`
+        SELECT id, title, ts_rank(${SEARCH_VECTOR}, query) AS rank
+        FROM "Post", ${toQuery}('english', $1) query
+        WHERE ${SEARCH_VECTOR} @@ query
+        ORDER BY rank DESC, id
+        LIMIT $2
+      `, terms.join(" "), SEARCH_LIMIT);
+      return;
+    }
+
+    // Substrings without a rank, the newest matches first. The generated
+    // words contain no wildcards.
+    const patterns = phrase ? [`%${terms.join(" ")}%`] : terms.map((term) => `%${term}%`);
+    await this.prisma.$queryRawUnsafe(`
+      SELECT id, title
+      FROM "Post"
+      WHERE ${patterns.map((_, i) => `${SEARCH_TEXT} ILIKE $${i + 1}`).join(" AND ")}
+      ORDER BY created_at DESC, id DESC
+      LIMIT $${patterns.length + 1}
+    `, ...patterns, SEARCH_LIMIT);
+  }
+
+  async readPost(postId: number) {
+    await this.prisma.post.findUnique({
+      where: { id: postId },
+      include: { likes: true },
+    });
+  }
+
+  async updatePost(postId: number, status: string) {
+    await this.prisma.post.update({
+      where: { id: postId },
+      data: { status },
+    });
+  }
+
+  async insertPost(post: PostRecord) {
+    await this.prisma.post.create({ data: post });
+  }
+
+  async scanPosts(postId: number, count: number) {
+    await this.prisma.post.findMany({
+      where: { id: { gte: postId } },
+      orderBy: { id: "asc" },
+      take: count,
+    });
+  }
+
+  async likePost(mode: TransactionMode, postId: number, userId: number) {
+    return retryTransaction(async () => {
+      if (mode === "batched") {
+        await this.prisma.$transaction([
+          this.prisma.like.create({ data: { post_id: postId, user_id: userId } }),
+          this.prisma.post.update({
+            where: { id: postId },
+            data: { like_count: { increment: 1 } },
+          }),
+        ], TRANSACTION_OPTIONS);
+        return;
+      }
+
+      await this.prisma.$transaction(async (tx) => {
+        await tx.like.create({ data: { post_id: postId, user_id: userId } });
+        await tx.post.update({
+          where: { id: postId },
+          data: { like_count: { increment: 1 } },
+        });
+      }, TRANSACTION_OPTIONS);
+    }, isWriteConflict);
+  }
+
+  async deleteUser(mode: TransactionMode, userId: number) {
+    return retryTransaction(async () => {
+      if (mode === "batched") {
+        // Relation filters instead of ids, a batch can't use earlier results
+        await this.prisma.$transaction([
+          this.prisma.post.updateMany({
+            where: { likes: { some: { user_id: userId } } },
+            data: { like_count: { decrement: 1 } },
+          }),
+          this.prisma.like.deleteMany({
+            where: { OR: [{ user_id: userId }, { post: { user_id: userId } }] },
+          }),
+          this.prisma.follows.deleteMany({
+            where: { OR: [{ following_user_id: userId }, { followed_user_id: userId }] },
+          }),
+          this.prisma.post.deleteMany({ where: { user_id: userId } }),
+          this.prisma.user.delete({ where: { id: userId } }),
+        ], TRANSACTION_OPTIONS);
+        return;
+      }
+
+      await this.prisma.$transaction(async (tx) => {
+        const liked = await tx.like.findMany({
+          where: { user_id: userId },
+          select: { post_id: true },
+        });
+        await tx.post.updateMany({
+          where: { id: { in: liked.map((like) => like.post_id) } },
+          data: { like_count: { decrement: 1 } },
+        });
+        await tx.like.deleteMany({
+          where: { OR: [{ user_id: userId }, { post: { user_id: userId } }] },
+        });
+        await tx.follows.deleteMany({
+          where: { OR: [{ following_user_id: userId }, { followed_user_id: userId }] },
+        });
+        await tx.post.deleteMany({ where: { user_id: userId } });
+        await tx.user.delete({ where: { id: userId } });
+      }, TRANSACTION_OPTIONS);
+    }, isWriteConflict);
+  }
+
+  async transferPost(mode: TransactionMode, postId: number, toUserId: number) {
+    return retryTransaction(async () => {
+      if (mode === "batched") {
+        await this.prisma.$transaction([
+          this.prisma.post.findUniqueOrThrow({ where: { id: postId } }),
+          this.prisma.post.update({
+            where: { id: postId },
+            data: { user_id: toUserId },
+          }),
+        ], TRANSACTION_OPTIONS);
+        return;
+      }
+
+      await this.prisma.$transaction(async (tx) => {
+        const post = await tx.post.findUniqueOrThrow({ where: { id: postId } });
+        if (post.user_id === toUserId) return;
+        await tx.post.update({
+          where: { id: postId },
+          data: { user_id: toUserId },
+        });
+      }, TRANSACTION_OPTIONS);
+    }, isWriteConflict);
+  }
+
+  async likeCounts(postIds: number[]) {
+    const { _sum } = await this.prisma.post.aggregate({
+      where: { id: { in: postIds } },
+      _sum: { like_count: true },
+    });
+    const actual = await this.prisma.like.count({
+      where: { post_id: { in: postIds } },
+    });
+    return { denormalized: _sum.like_count ?? 0, actual };
+  }
+}
+
+export class PostgresBasicAdapter extends PrismaAdapter {
+  readonly suite: Suite = "basic";
+
+  async writes() {
+    const { count } = await this.prisma.post.createMany({ data: this.data.posts });
+    return { affected: count };
+  }
+
+  async simpleRead() {
+    const rows = await this.prisma.post.findMany();
+    return { rows };
+  }
+
+  async filteredRead() {
+    const rows = await this.prisma.post.findMany({
+      where: {
+        status: "active",
+      },
+    });
+    return { rows };
+  }
+
+  async projectedRead() {
+    const rows = await this.prisma.post.findMany({
+      select: {
+        title: true,
+        created_at: true,
+      },
+    });
+    return { rows };
+  }
+
+  async sortedRead() {
+    const rows = await this.prisma.post.findMany({
+      orderBy: {
+        created_at: "desc",
+      },
+    });
+    return { rows };
+  }
+
+  async update() {
+    const { count } = await this.prisma.post.updateMany({
+      where: {
+        status: "active",
+      },
+      data: {
+        status: "archived",
+      },
+    });
+    return { affected: count };
+  }
+
+  async delete() {
+    const { count } = await this.prisma.post.deleteMany({
+      where: {
+        status: "archived",
+      },
+    });
+    return { affected: count };
+  }
+}
+
+export class PostgresRelationsAdapter extends PrismaAdapter implements MaintenanceAdapter {
+  readonly suite: Suite = "relational";
+
+  async writes() {
+    const posts = await this.prisma.post.createMany({ data: this.data.posts });
+
+    const likes = await this.prisma.like.createMany({
+      data: this.data.likes.map((like) => ({
+        post_id: like.post_id,
+        user_id: like.user_id,
+      })),
+      skipDuplicates: true,
+    });
+    return { affected: posts.count + likes.count };
+  }
+
+  async simpleRead() {
+    const rows = await this.prisma.post.findMany({
+      include: {
+        user: true,
+        likes: true,
+      },
+    });
+    return { rows };
+  }
+
+  async filteredRead() {
+    const rows = await this.prisma.post.findMany({
+      where: {
+        status: "active",
+        likes: { some: {} },
+      },
+      include: {
+        user: true,
+        likes: true,
+      },
+    });
+    return { rows };
+  }
+
+  async projectedRead() {
+    const rows = await this.prisma.post.findMany({
+      where: { status: "active" },
+      select: {
+        title: true,
+        created_at: true,
+        user: {
+          select: { username: true },
+        },
+        _count: { select: { likes: true } },
+      },
+    });
+    return { rows };
+  }
+
+  async sortedRead() {
+    const rows = await this.prisma.post.findMany({
+      where: { status: "active" },
+      select: {
+        title: true,
+        created_at: true,
+        user: {
+          select: { username: true },
+        },
+        _count: { select: { likes: true } },
+      },
+      orderBy: [
+        { created_at: "desc" },
+        { title: "asc" },
+      ],
+    });
+    return { rows };
+  }
+
+  async update() {
+    const posts = await this.prisma.post.findMany({
+      where: { likes: { some: {} } },
+      select: { id: true },
+    });
+
+    const { count } = await this.prisma.post.updateMany({
+      where: { id: { in: posts.map((p) => p.id) } },
+      data: { status: "trending" },
+    });
+    return { affected: count };
+  }
+
+  async delete() {
+    // Delete posts with no likes
+    const { count } = await this.prisma.post.deleteMany({
+      where: {
+        likes: { none: {} },
+      },
+    });
+    return { affected: count };
+  }
+
+  // Normalized, the joins read the username and count the likes
+  async renameUser(userId: number, username: string) {
+    await this.prisma.user.update({
+      where: { id: userId },
+      data: { username },
+    });
+  }
+
+  async addLike(postId: number, userId: number) {
+    await this.prisma.like.create({ data: { post_id: postId, user_id: userId } });
+  }
+
+  async removeLike(postId: number, userId: number) {
+    await this.prisma.like.delete({
+      where: { post_id_user_id: { post_id: postId, user_id: userId } },
+    });
+  }
+}
+
+export class PostgresIndexedAdapter extends PrismaAdapter implements IndexAdapter {
+  readonly suite: Suite = "indexed";
+
+  async seed(data: TestData) {
+    await super.seed(data);
+
+    // Built before the writes so inserts pay for index maintenance
+    await this.createIndexes();
+  }
+
+  async cleanup() {
+    await super.cleanup();
+
+    // Keep the other Postgres variants on the same database unindexed
+    await this.dropIndexes();
+  }
+
+  async createIndexes() {
+    for (const { name, on } of SECONDARY_INDEXES) {
+      await this.prisma.$executeRawUnsafe(`CREATE INDEX IF NOT EXISTS "${name}" ON ${on}`);
+    }
+  }
+
+  async dropIndexes() {
+    for (const { name } of SECONDARY_INDEXES) {
+      await this.prisma.$executeRawUnsafe(`DROP INDEX IF EXISTS "${name}"`);
+    }
+  }
+
+  async indexSize() {
+    const [{ bytes }] = await this.prisma.$queryRaw<{ bytes: bigint | null }[]>`
+      SELECT SUM(pg_relation_size(oid))::bigint AS bytes
+      FROM pg_class
+      WHERE relkind = 'i'
+        AND relname = ANY(${SECONDARY_INDEXES.map((index) => index.name)})
+    `;
+    return Number(bytes ?? 0);
+  }
+
+  async writes() {
+    const posts = await this.prisma.post.createMany({ data: this.data.posts });
+    const likes = await this.prisma.like.createMany({
+      data: this.data.likes.map((like) => ({
+        post_id: like.post_id,
+        user_id: like.user_id,
+      })),
+    });
+    return { affected: posts.count + likes.count };
+  }
+
+  async simpleRead() {
+    const rows = await this.prisma.post.findMany();
+    return { rows };
+  }
+
+  async filteredRead() {
+    // Post_status_idx
+    const rows = await this.prisma.post.findMany({
+      where: { status: "active" },
+    });
+    return { rows };
+  }
+
+  async projectedRead() {
+    // Post_status_created_at_idx
+    const rows = await this.prisma.post.findMany({
+      where: { status: "active" },
+      select: {
+        title: true,
+        created_at: true,
+      },
+    });
+    return { rows };
+  }
+
+  async sortedRead() {
+    // Post_created_at_idx, scanned backwards
+    const rows = await this.prisma.post.findMany({
+      orderBy: { created_at: "desc" },
+    });
+    return { rows };
+  }
+
+  async update() {
+    const { count } = await this.prisma.post.updateMany({
+      where: { status: "active" },
+      data: { status: "archived" },
+    });
+    return { affected: count };
+  }
+
+  async delete() {
+    // Unlike MongoDB the foreign key keeps likes from pointing at deleted posts
+    const [, posts] = await this.prisma.$transaction([
+      this.prisma.like.deleteMany({
+        where: { post: { status: "archived" } },
+      }),
+      this.prisma.post.deleteMany({
+        where: { status: "archived" },
+      }),
+    ]);
+    return { affected: posts.count };
+  }
+}
@@ -0,0 +1,515 @@
+import { Database } from "bun:sqlite";
+import type {
+  DataBatch,
+  Engine,
+  FollowRecord,
+  LikeRecord,
+  OperationOutcome,
+  PostRecord,
+  StorageSize,
+  Suite,
+  TestData,
+  UserRecord,
+} from "../types";
+import {
+  FEED_PAGE_SIZE,
+  loadUsers,
+  TIMELINE_PAGE_SIZE,
+  TIMELINE_PAGES,
+  type BulkLoadAdapter,
+  type DatabaseAdapter,
+  type FeedCursor,
+  type GraphAdapter,
+  type MaintenanceAdapter,
+  type PaginationAdapter,
+  type StorageAdapter,
+  type WorkloadAdapter,
+} from "./adapter";
+
+// Mirrors the User/Post/Like/Follows models of prisma/schema.prisma
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS "User" (
+    id         INTEGER PRIMARY KEY,
+    username   TEXT NOT NULL UNIQUE,
+    role       TEXT NOT NULL,
+    created_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP
+  );
+
+  CREATE TABLE IF NOT EXISTS "Post" (
+    id         INTEGER PRIMARY KEY,
+    title      TEXT NOT NULL,
+    body       TEXT NOT NULL,
+    status     TEXT NOT NULL,
+    created_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    user_id    INTEGER NOT NULL REFERENCES "User"(id),
+    like_count INTEGER NOT NULL DEFAULT 0
+  );
+
+  CREATE TABLE IF NOT EXISTS "Like" (
+    post_id INTEGER NOT NULL REFERENCES "Post"(id),
+    user_id INTEGER NOT NULL REFERENCES "User"(id),
+    PRIMARY KEY (post_id, user_id)
+  );
+
+  CREATE TABLE IF NOT EXISTS "Follows" (
+    following_user_id INTEGER NOT NULL REFERENCES "User"(id),
+    followed_user_id  INTEGER NOT NULL REFERENCES "User"(id),
+    created_at        TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    PRIMARY KEY (following_user_id, followed_user_id)
+  );
+`;
+
+abstract class SqliteAdapter implements
+  DatabaseAdapter,
+  BulkLoadAdapter,
+  GraphAdapter,
+  WorkloadAdapter,
+  PaginationAdapter,
+  StorageAdapter {
+  readonly key: string;
+  readonly label: string;
+  readonly engine: Engine = "sqlite";
+  abstract readonly suite: Suite;
+
+  protected db!: Database;
+  protected data: TestData = { users: [], posts: [], likes: [], follows: [] };
+  private path: string;
+
+  constructor(key: string, label: string, path: string) {
+    this.key = key;
+    this.label = label;
+    this.path = path;
+  }
+
+  async connect() {
+    this.db = new Database(this.path, { create: true });
+    this.db.exec("PRAGMA journal_mode = WAL");
+    this.db.exec("PRAGMA foreign_keys = ON");
+    this.db.exec(SCHEMA);
+  }
+
+  async disconnect() {
+    this.db.close();
+  }
+
+  async storageSize() {
+    this.db.exec("VACUUM");
+    // Pages per table and index, the implicit primary key and unique indexes included
+    const rows = this.db.query(`
+      SELECT m.tbl_name AS name,
+        SUM(CASE WHEN m.type = 'table' THEN s.pgsize ELSE 0 END) AS dataBytes,
+        SUM(CASE WHEN m.type = 'index' THEN s.pgsize ELSE 0 END) AS indexBytes
+      FROM dbstat s
+      JOIN sqlite_schema m ON m.name = s.name
+      WHERE m.tbl_name IN ('User', 'Post', 'Like', 'Follows')
+      GROUP BY m.tbl_name
+    `).all() as ({ name: string } & StorageSize)[];
+    return Object.fromEntries(rows.map(({ name, ...size }) => [name, size]));
+  }
+
+  async seed(data: TestData) {
+    this.data = data;
+    await loadUsers(this, data.users);
+  }
+
+  async loadBatch(batch: DataBatch) {
+    switch (batch.table) {
+      case "users":
+        return this.insertUsers(batch.rows);
+      case "posts":
+        return this.insertPosts(batch.rows);
+      case "likes":
+        return this.insertLikes(batch.rows);
+    }
+  }
+
+  async cleanup() {
+    this.db.exec(`
+      DELETE FROM "Like";
+      DELETE FROM "Follows";
+      DELETE FROM "Post";
+      DELETE FROM "User";
+    `);
+  }
+
+  // Every bulk insert is a single transaction, the SQLite equivalent of createMany
+  protected insertUsers(users: UserRecord[]) {
+    const insert = this.db.prepare(
+      `INSERT INTO "User" (id, username, role, created_at) VALUES (?, ?, ?, ?)`,
+    );
+    return this.db.transaction(() => {
+      let inserted = 0;
+      for (const user of users) {
+        inserted += insert.run(
+          user.id,
+          user.username,
+          user.role,
+          user.created_at.toISOString(),
+        ).changes;
+      }
+      return inserted;
+    })();
+  }
+
+  protected insertPosts(posts: PostRecord[]) {
+    const insert = this.db.prepare(
+      `INSERT INTO "Post" (id, title, body, status, created_at, user_id)
+       VALUES (?, ?, ?, ?, ?, ?)`,
+    );
+    return this.db.transaction(() => {
+      let inserted = 0;
+      for (const post of posts) {
+        inserted += insert.run(
+          post.id,
+          post.title,
+          post.body,
+          post.status,
+          post.created_at.toISOString(),
+          post.user_id,
+        ).changes;
+      }
+      return inserted;
+    })();
+  }
+
+  protected insertLikes(likes: LikeRecord[]) {
+    // Same as skipDuplicates in Prisma
+    const insert = this.db.prepare(
+      `INSERT OR IGNORE INTO "Like" (post_id, user_id) VALUES (?, ?)`,
+    );
+    return this.db.transaction(() => {
+      let inserted = 0;
+      for (const like of likes) {
+        inserted += insert.run(like.post_id, like.user_id).changes;
+      }
+      return inserted;
+    })();
+  }
+
+  protected insertFollows(follows: FollowRecord[]) {
+    const insert = this.db.prepare(
+      `INSERT INTO "Follows" (following_user_id, followed_user_id, created_at)
+       VALUES (?, ?, ?)`,
+    );
+    this.db.transaction(() => {
+      for (const follow of follows) {
+        insert.run(
+          follow.following_user_id,
+          follow.followed_user_id,
+          follow.created_at.toISOString(),
+        );
+      }
+    })();
+  }
+
+  abstract writes(): Promise<OperationOutcome>;
+  abstract simpleRead(): Promise<OperationOutcome>;
+  abstract filteredRead(): Promise<OperationOutcome>;
+  abstract projectedRead(): Promise<OperationOutcome>;
+  abstract sortedRead(): Promise<OperationOutcome>;
+  abstract update(): Promise<OperationOutcome>;
+  abstract delete(): Promise<OperationOutcome>;
+
+  async postsPerUser() {
+    this.db.query(`
+      SELECT u.username, COUNT(p.id) AS post_count
+      FROM "User" u
+      LEFT JOIN "Post" p ON u.id = p.user_id
+      GROUP BY u.id
+      ORDER BY post_count DESC
+    `).all();
+  }
+
+  async avgLikesPerPost() {
+    this.db.query(`
+      SELECT AVG(like_count)
+      FROM (
+        SELECT COUNT(l.post_id) as like_count
+        FROM "Post" p
+        LEFT JOIN "Like" l ON p.id = l.post_id
+        GROUP BY p.id
+      ) counts
+    `).all();
+  }
+
+  async mostActiveUsers() {
+    this.db.query(`
+      SELECT
+        u.username,
+        COUNT(DISTINCT p.id) AS post_count,
+        COUNT(l.post_id) AS total_likes
+      FROM "User" u
+      LEFT JOIN "Post" p ON u.id = p.user_id
+      LEFT JOIN "Like" l ON p.id = l.post_id
+      GROUP BY u.id
+      ORDER BY post_count DESC, total_likes DESC
+      LIMIT 10
+    `).all();
+  }
+
+  async mostLikedPosts() {
+    this.db.query(`
+      SELECT p.title, u.username, COUNT(l.user_id) AS like_count
+      FROM "Post" p
+      JOIN "User" u ON u.id = p.user_id
+      LEFT JOIN "Like" l ON p.id = l.post_id
+      GROUP BY p.id
+      ORDER BY like_count DESC
+      LIMIT 10
+    `).all();
+  }
+
+  async userEngagement() {
+    this.db.query(`
+      SELECT
+        u.username,
+        COUNT(DISTINCT p.id) as post_count,
+        COUNT(DISTINCT l.post_id) as likes_given,
+        COUNT(DISTINCT pl.user_id) as likes_received
+      FROM "User" u
+      LEFT JOIN "Post" p ON u.id = p.user_id
+      LEFT JOIN "Like" l ON u.id = l.user_id
+      LEFT JOIN "Like" pl ON p.id = pl.post_id
+      GROUP BY u.id, u.username
+      ORDER BY (
+        COUNT(DISTINCT p.id) +
+        COUNT(DISTINCT l.post_id) +
+        COUNT(DISTINCT pl.user_id)
+      ) DESC
+      LIMIT 10
+    `).all();
+  }
+
+  async followWrites() {
+    this.insertFollows(this.data.follows);
+  }
+
+  async followCounts(userId: number) {
+    this.db.query(`SELECT COUNT(*) FROM "Follows" WHERE followed_user_id = ?`).get(userId);
+    this.db.query(`SELECT COUNT(*) FROM "Follows" WHERE following_user_id = ?`).get(userId);
+  }
+
+  async mutualFollows(userId: number) {
+    this.db.query(`
+      SELECT f1.followed_user_id
+      FROM "Follows" f1
+      JOIN "Follows" f2
+        ON f2.following_user_id = f1.followed_user_id
+       AND f2.followed_user_id = f1.following_user_id
+      WHERE f1.following_user_id = ?1
+    `).all(userId);
+  }
+
+  async friendsOfFriends(userId: number) {
+    this.db.query(`
+      SELECT f2.followed_user_id AS user_id, COUNT(*) AS mutual_count
+      FROM "Follows" f1
+      JOIN "Follows" f2 ON f2.following_user_id = f1.followed_user_id
+      WHERE f1.following_user_id = ?1
+        AND f2.followed_user_id <> ?1
+        AND NOT EXISTS (
+          SELECT 1 FROM "Follows" f3
+          WHERE f3.following_user_id = ?1
+            AND f3.followed_user_id = f2.followed_user_id
+        )
+      GROUP BY f2.followed_user_id
+      ORDER BY mutual_count DESC, user_id
+      LIMIT 10
+    `).all(userId);
+  }
+
+  async homeTimeline(userId: number) {
+    // Same fan-out on read as the other engines
+    const followed = this.db.query(
+      `SELECT followed_user_id FROM "Follows" WHERE following_user_id = ?`,
+    ).all(userId) as { followed_user_id: number }[];
+    const userIds = JSON.stringify(followed.map((f) => f.followed_user_id));
+
+    const page = this.db.query(`
+      SELECT * FROM "Post"
+      WHERE user_id IN (SELECT value FROM json_each(?1))
+      ORDER BY created_at DESC, id DESC
+      LIMIT ?2 OFFSET ?3
+    `);
+    for (let i = 0; i < TIMELINE_PAGES; i++) {
+      page.all(userIds, TIMELINE_PAGE_SIZE, i * TIMELINE_PAGE_SIZE);
+    }
+  }
+
+  async offsetPage(page: number) {
+    const posts = this.db.query(`
+      SELECT * FROM "Post"
+      ORDER BY created_at DESC, id DESC
+      LIMIT ? OFFSET ?
+    `).all(FEED_PAGE_SIZE, page * FEED_PAGE_SIZE) as { id: number }[];
+    return posts.map((post) => post.id);
+  }
+
+  async keysetPage(cursor: FeedCursor | null) {
+    // Row value comparison, dates are ISO strings which sort chronologically
+    const posts = (cursor
+      ? this.db.query(`
+        SELECT * FROM "Post"
+        WHERE (created_at, id) < (?, ?)
+        ORDER BY created_at DESC, id DESC
+        LIMIT ?
+      `).all(cursor.created_at.toISOString(), cursor.id, FEED_PAGE_SIZE)
+      : this.db.query(`
+        SELECT * FROM "Post"
+        ORDER BY created_at DESC, id DESC
+        LIMIT ?
+      `).all(FEED_PAGE_SIZE)) as { id: number }[];
+    return posts.map((post) => post.id);
+  }
+
+  async createFeedIndex() {
+    this.db.exec(`CREATE INDEX IF NOT EXISTS "Post_created_at_id_idx" ON "Post"(created_at DESC, id DESC)`);
+  }
+
+  async dropFeedIndex() {
+    this.db.exec(`DROP INDEX IF EXISTS "Post_created_at_id_idx"`);
+  }
+
+  async readPost(postId: number) {
+    this.db.query(`SELECT * FROM "Post" WHERE id = ?`).get(postId);
+    this.db.query(`SELECT * FROM "Like" WHERE post_id = ?`).all(postId);
+  }
+
+  async updatePost(postId: number, status: string) {
+    this.db.run(`UPDATE "Post" SET status = ? WHERE id = ?`, [status, postId]);
+  }
+
+  async insertPost(post: PostRecord) {
+    this.insertPosts([post]);
+  }
+
+  async scanPosts(postId: number, count: number) {
+    this.db.query(`SELECT * FROM "Post" WHERE id >= ? ORDER BY id LIMIT ?`).all(postId, count);
+  }
+}
+
+export class SqliteBasicAdapter extends SqliteAdapter {
+  readonly suite: Suite = "basic";
+
+  async writes() {
+    return { affected: this.insertPosts(this.data.posts) };
+  }
+
+  async simpleRead() {
+    const rows = this.db.query(`SELECT * FROM "Post"`).all();
+    return { rows };
+  }
+
+  async filteredRead() {
+    const rows = this.db.query(`SELECT * FROM "Post" WHERE status = 'active'`).all();
+    return { rows };
+  }
+
+  async projectedRead() {
+    const rows = this.db.query(`SELECT title, created_at FROM "Post"`).all();
+    return { rows };
+  }
+
+  async sortedRead() {
+    const rows = this.db.query(`SELECT * FROM "Post" ORDER BY created_at DESC`).all();
+    return { rows };
+  }
+
+  async update() {
+    const { changes } = this.db.run(
+      `UPDATE "Post" SET status = 'archived' WHERE status = 'active'`,
+    );
+    return { affected: changes };
+  }
+
+  async delete() {
+    const { changes } = this.db.run(`DELETE FROM "Post" WHERE status = 'archived'`);
+    return { affected: changes };
+  }
+}
+
+export class SqliteRelationsAdapter extends SqliteAdapter implements MaintenanceAdapter {
+  readonly suite: Suite = "relational";
+
+  async writes() {
+    const posts = this.insertPosts(this.data.posts);
+    return { affected: posts + this.insertLikes(this.data.likes) };
+  }
+
+  async simpleRead() {
+    // Likes are collected per post like Prisma's include and Mongo's $lookup
+    const rows = this.db.query(`
+      SELECT p.*, u.username, u.role, u.created_at AS user_created_at,
+        (SELECT json_group_array(json_object('post_id', l.post_id, 'user_id', l.user_id))
+         FROM "Like" l WHERE l.post_id = p.id) AS likes
+      FROM "Post" p
+      JOIN "User" u ON u.id = p.user_id
+    `).all();
+    return { rows };
+  }
+
+  async filteredRead() {
+    const rows = this.db.query(`
+      SELECT p.*, u.username, u.role, u.created_at AS user_created_at,
+        (SELECT json_group_array(json_object('post_id', l.post_id, 'user_id', l.user_id))
+         FROM "Like" l WHERE l.post_id = p.id) AS likes
+      FROM "Post" p
+      JOIN "User" u ON u.id = p.user_id
+      WHERE p.status = 'active'
+        AND EXISTS (SELECT 1 FROM "Like" l WHERE l.post_id = p.id)
+    `).all();
+    return { rows };
+  }
+
+  async projectedRead() {
+    const rows = this.db.query(`
+      SELECT p.title, p.created_at, u.username,
+        (SELECT COUNT(*) FROM "Like" l WHERE l.post_id = p.id) AS like_count
+      FROM "Post" p
+      JOIN "User" u ON u.id = p.user_id
+      WHERE p.status = 'active'
+    `).all();
+    return { rows };
+  }
+
+  async sortedRead() {
+    const rows = this.db.query(`
+      SELECT p.title, p.created_at, u.username,
+        (SELECT COUNT(*) FROM "Like" l WHERE l.post_id = p.id) AS like_count
+      FROM "Post" p
+      JOIN "User" u ON u.id = p.user_id
+      WHERE p.status = 'active'
+      ORDER BY p.created_at DESC, p.title ASC
+    `).all();
+    return { rows };
+  }
+
+  async update() {
+    const { changes } = this.db.run(`
+      UPDATE "Post" SET status = 'trending'
+      WHERE EXISTS (SELECT 1 FROM "Like" l WHERE l.post_id = "Post".id)
+    `);
+    return { affected: changes };
+  }
+
+  async delete() {
+    // Delete posts with no likes
+    const { changes } = this.db.run(`
+      DELETE FROM "Post"
+      WHERE NOT EXISTS (SELECT 1 FROM "Like" l WHERE l.post_id = "Post".id)
+    `);
+    return { affected: changes };
+  }
+
+  async renameUser(userId: number, username: string) {
+    this.db.run(`UPDATE "User" SET username = ? WHERE id = ?`, [username, userId]);
+  }
+
+  async addLike(postId: number, userId: number) {
+    this.db.run(`INSERT INTO "Like" (post_id, user_id) VALUES (?, ?)`, [postId, userId]);
+  }
+
+  async removeLike(postId: number, userId: number) {
+    this.db.run(`DELETE FROM "Like" WHERE post_id = ? AND user_id = ?`, [postId, userId]);
+  }
+}
@@ -1,48 +1,436 @@
-import { readFileSync, writeFileSync } from 'fs';
-
-export function generateChart(data: any, scale: string, withAtlas: boolean) {
-	const html = `<!DOCTYPE html>
-	<html>
-	<body style="padding: 32px;">
-	<script src="https://cdn.jsdelivr.net/npm/chart.js"></script>
-	<canvas id="chart"></canvas>
-	<script>
-		const ctx = document.getElementById('chart');
-		new Chart(ctx, {
+import { readFileSync, writeFileSync } from 'fs'
+import { createRequire } from 'module'
+import path from 'path'
+import { parseArgs } from 'util'
+import { ENGINE_LABELS } from './adapters'
+import { fitResults, MIN_FIT_SCALES, MODEL_LABELS } from './complexity'
+import { DEFAULT_HISTORY_DIR, loadRun } from './history'
+import {
+	AGGREGATION_OPERATIONS,
+	GRAPH_OPERATIONS,
+	MAINTENANCE_OPERATIONS,
+	OPERATIONS,
+	PAGINATION_OPERATIONS,
+	SEEDING_TABLES,
+} from './performance-test'
+import { SEARCH_OPERATIONS } from './search'
+import { formatBytes, storedMedian } from './stats'
+import { TRANSACTION_OPERATIONS } from './transactions'
+import type { Engine, LatencyStats, Operation, StorageSize, StoredResults } from './types'
+
+const USAGE = `Usage: bun run src/charts.ts [results] [options]
+
+Writes a self-contained HTML report of a results file or stored run
+(run id, "latest" or "previous"), default test-results.json.
+
+Options:
+  --output <path>   Where to write the report, default report.html
+  --history <dir>   Directory of the stored runs, default ${DEFAULT_HISTORY_DIR}
+  -h, --help        Show this message`
+
+const LABELS: Record<string, string> = {
+	writes: 'Writes',
+	simpleRead: 'Simple Read',
+	filteredRead: 'Filtered Read',
+	projectedRead: 'Projected Read',
+	sortedRead: 'Sorted Read',
+	update: 'Update',
+	delete: 'Delete',
+}
+
+type Stats = Omit<LatencyStats, 'samples'> | number
+
+interface ChartSpec {
+	type: 'bar' | 'line'
+	title: string
+	labels: (string | number)[]
+	datasets: { label: string, data: (number | null)[] }[]
+	xTitle?: string
+	yTitle: string
+	logarithmic?: boolean
+}
+
+// Inlined so the report works offline. The UMD build isn't exported, it sits
+// next to the CommonJS entry point.
+function chartLibrary() {
+	const require = createRequire(import.meta.url)
+	const dist = path.dirname(require.resolve('chart.js'))
+	const source = readFileSync(path.join(dist, 'chart.umd.min.js'), 'utf8')
+	return source.replace(/<\/script/gi, '<\\/script')
+}
+
+function escapeHtml(text: string) {
+	return text
+		.replace(/&/g, '&amp;')
+		.replace(/</g, '&lt;')
+		.replace(/>/g, '&gt;')
+		.replace(/"/g, '&quot;')
+}
+
+function formatCell(stats: Stats | undefined) {
+	if (stats === undefined) return '-'
+	// Older results files only have a single duration
+	if (typeof stats === 'number') return `${stats.toFixed(2)}ms`
+	return `${stats.median.toFixed(2)}ms ± ${stats.stdDev.toFixed(2)}`
+}
+
+// Rows are operations, columns are variants or engines, the fastest cell per row is bold.
+// Flagged cells returned something else than the other variants.
+function latencyTable(
+	operations: string[],
+	columns: { key: string, label: string }[],
+	stats: (column: string, op: string) => Stats | undefined,
+	flagged: (column: string, op: string) => boolean = () => false,
+) {
+	const head = columns.map(c => `<th>${escapeHtml(c.label)}</th>`).join('')
+	const rows = operations.map(op => {
+		const medians = columns.map(c => {
+			const s = stats(c.key, op)
+			return s === undefined ? Infinity : storedMedian(s)
+		})
+		const fastest = Math.min(...medians)
+		const cells = columns.map((c, i) => {
+			let cell = escapeHtml(formatCell(stats(c.key, op)))
+			if (medians[i] === fastest && fastest !== Infinity) cell = `<b>${cell}</b>`
+			return flagged(c.key, op) ? `<td class="mismatch">${cell} (mismatch)</td>` : `<td>${cell}</td>`
+		}).join('')
+		return `<tr><th>${escapeHtml(LABELS[op] ?? op)}</th>${cells}</tr>`
+	}).join('\n')
+
+	return `<table><thead><tr><th>Operation (median ± std dev)</th>${head}</tr></thead><tbody>${rows}</tbody></table>`
+}
+
+// Results keyed by operation name
+function lookup(ops: object | undefined, op: string) {
+	return (ops as Record<string, Stats> | undefined)?.[op]
+}
+
+// Engines and targets, a target is labelled with its name
+function engineColumns(results: Record<string, unknown>) {
+	return Object.keys(results).map(engine => ({ key: engine, label: ENGINE_LABELS[engine as Engine] ?? engine }))
+}
+
+export function generateReport(data: StoredResults): string {
+	const charts: ChartSpec[] = []
+	const sections: string[] = []
+
+	const chart = (spec: ChartSpec) => {
+		charts.push(spec)
+		return `<div class="chart"><canvas id="chart-${charts.length - 1}"></canvas></div>`
+	}
+	const variantLabel = (key: string) => data.variants?.[key] ?? key
+
+	const scales = Object.keys(data.scaleTests ?? {}).map(Number).sort((a, b) => a - b)
+	const variants = [...new Set(scales.flatMap(scale => Object.keys(data.scaleTests[scale])))]
+
+	// Per scale: one bar group per operation, one bar per variant
+	if (scales.length > 0) {
+		const perScale = scales.map(scale => {
+			const results = data.scaleTests[scale]
+			return chart({
+				type: 'bar',
+				title: `Scale ${scale}`,
+				labels: OPERATIONS.map(op => LABELS[op]),
+				datasets: Object.entries(results).map(([key, ops]) => ({
+					label: variantLabel(key),
+					data: OPERATIONS.map(op => ops[op] === undefined ? null : storedMedian(ops[op])),
+				})),
+				yTitle: 'Median (ms)',
+			})
+		})
+		sections.push(`<h2>Operations per scale</h2><div class="grid">${perScale.join('\n')}</div>`)
+	}
+
+	// Per operation: how the latency of every variant grows with the scale
+	if (scales.length > 1) {
+		const perOperation = OPERATIONS.map(op => chart({
+			type: 'line',
+			title: LABELS[op],
+			labels: scales,
+			datasets: variants.map(key => ({
+				label: variantLabel(key),
+				data: scales.map(scale => {
+					const stats = data.scaleTests[scale][key]?.[op]
+					return stats === undefined ? null : storedMedian(stats)
+				}),
+			})),
+			xTitle: 'Scale',
+			yTitle: 'Median (ms)',
+			logarithmic: true,
+		}))
+		sections.push(`<h2>Latency by scale</h2><div class="grid">${perOperation.join('\n')}</div>`)
+	}
+
+	// Best fitting growth per variant and operation, like src/fit.ts prints it
+	if (scales.length >= MIN_FIT_SCALES) {
+		const targetScale = scales[scales.length - 1] * 10
+		const rows = fitResults(data, targetScale).map(fit =>
+			`<tr><th>${escapeHtml(fit.group)}</th><td>${escapeHtml(variantLabel(fit.target))}</td><td>${escapeHtml(fit.operation)}</td><td>${MODEL_LABELS[fit.model]}</td><td>${fit.exponent.toFixed(2)}</td><td>${(fit.error * 100).toFixed(1)}%</td><td>${fit.projectedMs.toFixed(2)}ms</td></tr>`)
+		sections.push(`<h2>Complexity</h2>
+			<table><thead><tr><th>Group</th><th>Variant or engine</th><th>Operation</th><th>Best fit</th><th>Exponent</th><th>Fit error</th><th>Projected (scale ${targetScale})</th></tr></thead><tbody>${rows.join('\n')}</tbody></table>`)
+	}
+
+	// Secondary indexes of the indexed variants, built on the written data
+	for (const [scale, results] of Object.entries(data.indexTests ?? {})) {
+		const rows = Object.entries(results).map(([key, index]) =>
+			`<tr><th>${escapeHtml(variantLabel(key))}</th><td>${escapeHtml(formatCell(index.build))}</td><td>${formatBytes(index.sizeBytes)}</td></tr>`)
+		sections.push(`<h2>Indexes (scale ${scale})</h2>
+			<table><thead><tr><th>Variant</th><th>Build (median ± std dev)</th><th>Size</th></tr></thead><tbody>${rows.join('\n')}</tbody></table>`)
+	}
+
+	// Normalized variants change one record, denormalized ones their copies too
+	for (const [scale, results] of Object.entries(data.maintenanceTests ?? {})) {
+		const columns = Object.keys(results).map(key => ({ key, label: variantLabel(key) }))
+		sections.push(`<h2>Keeping copies consistent (scale ${scale})</h2>${latencyTable(MAINTENANCE_OPERATIONS, columns, (key, op) =>
+			lookup(results[key], op))}`)
+	}
+
+	// Disk space after the writes, relational tables next to document collections
+	for (const [scale, results] of Object.entries(data.storageTests ?? {})) {
+		const keys = Object.keys(results)
+		const total = (key: string, size: (s: StorageSize) => number) =>
+			Object.values(results[key]).reduce((sum, s) => sum + size(s), 0)
+		const rows = keys.flatMap(key => Object.entries(results[key]).map(([name, s]) =>
+			`<tr><th>${escapeHtml(variantLabel(key))}</th><td>${escapeHtml(name)}</td><td>${formatBytes(s.dataBytes)}</td><td>${formatBytes(s.indexBytes)}</td><td>${formatBytes(s.dataBytes + s.indexBytes)}</td></tr>`))
+		sections.push(`<h2>Storage (scale ${scale})</h2><div class="grid">${chart({
 			type: 'bar',
-			data: {
-				labels: ['Writes', 'Simple Read', 'Filtered Read', 'Projected Read', 'Sorted Read', 'Update', 'Delete'],
-				datasets: [
-					{
-						label: "Postgres",
-						fillColor: "blue",
-						data: [${data[scale]['postgres']['writes']}, ${data[scale]['postgres']['simpleRead']}, ${data[scale]['postgres']['filteredRead']}, ${data[scale]['postgres']['projectedRead']}, ${data[scale]['postgres']['sortedRead']}, ${data[scale]['postgres']['update']}, ${data[scale]['postgres']['delete']}]
-					},
-					{
-						label: "MongoDB",
-						fillColor: "green",
-						data: [${data[scale]['mongo']['writes']}, ${data[scale]['mongo']['simpleRead']}, ${data[scale]['mongo']['filteredRead']}, ${data[scale]['mongo']['projectedRead']}, ${data[scale]['mongo']['sortedRead']}, ${data[scale]['mongo']['update']}, ${data[scale]['mongo']['delete']}]
+			title: `Storage at scale ${scale}`,
+			labels: keys.map(variantLabel),
+			datasets: [
+				{ label: 'Data', data: keys.map(key => total(key, s => s.dataBytes) / 1024 / 1024) },
+				{ label: 'Indexes', data: keys.map(key => total(key, s => s.indexBytes) / 1024 / 1024) },
+			],
+			yTitle: 'MB',
+		})}</div>
+			<table><thead><tr><th>Variant</th><th>Table or collection</th><th>Data</th><th>Indexes</th><th>Total</th></tr></thead><tbody>${rows.join('\n')}</tbody></table>`)
+	}
+
+	// Sampled from the database containers, not recorded with --no-docker
+	for (const [scale, results] of Object.entries(data.resourceTests ?? {})) {
+		const keys = Object.keys(results)
+		const head = keys.map(key => `<th>${escapeHtml(variantLabel(key))}</th>`).join('')
+		const rows = OPERATIONS.map(op => {
+			const cells = keys.map(key => {
+				const usage = results[key][op]
+				return usage
+					? `<td>${usage.cpuPercent.toFixed(0)}% CPU, ${formatBytes(usage.memoryPeakBytes)} peak</td>`
+					: '<td>-</td>'
+			}).join('')
+			return `<tr><th>${LABELS[op]}</th>${cells}</tr>`
+		})
+		sections.push(`<h2>Container resources (scale ${scale})</h2>
+			<table><thead><tr><th>Operation</th>${head}</tr></thead><tbody>${rows.join('\n')}</tbody></table>`)
+	}
+
+	if (Object.keys(data.aggregationTests ?? {}).length > 0) {
+		const engines = engineColumns(data.aggregationTests)
+		const scale = data.aggregationScale ? ` (scale ${data.aggregationScale})` : ''
+		sections.push(`<h2>Aggregations${scale}</h2><div class="grid">${chart({
+			type: 'bar',
+			title: 'Aggregations',
+			labels: AGGREGATION_OPERATIONS,
+			datasets: engines.map(({ key, label }) => ({
+				label,
+				data: AGGREGATION_OPERATIONS.map(op => {
+					const stats = data.aggregationTests[key]?.[op]
+					return stats === undefined ? null : storedMedian(stats)
+				}),
+			})),
+			yTitle: 'Median (ms)',
+		})}</div>${latencyTable(AGGREGATION_OPERATIONS, engines, (engine, op) =>
+			lookup(data.aggregationTests[engine], op))}`)
+	}
+
+	for (const [scale, results] of Object.entries(data.graphTests ?? {})) {
+		if (Object.keys(results).length === 0) continue
+		const engines = engineColumns(results)
+		sections.push(`<h2>Social graph (scale ${scale})</h2>${latencyTable(GRAPH_OPERATIONS, engines, (engine, op) =>
+			lookup(results[engine], op))}`)
+	}
+
+	// Keys are engine and whether the feed index exists, e.g. postgres-indexed
+	for (const [scale, results] of Object.entries(data.paginationTests ?? {})) {
+		const columns = Object.keys(results).map(key => {
+			const [engine, variant] = key.split('-')
+			return { key, label: `${ENGINE_LABELS[engine as Engine] ?? engine} ${variant}` }
+		})
+		sections.push(`<h2>Pagination (scale ${scale})</h2><div class="grid">${chart({
+			type: 'bar',
+			title: `Page latency at scale ${scale}`,
+			labels: PAGINATION_OPERATIONS,
+			datasets: columns.map(({ key, label }) => ({
+				label,
+				data: PAGINATION_OPERATIONS.map(op => storedMedian(results[key][op])),
+			})),
+			yTitle: 'Median (ms)',
+		})}</div>${latencyTable(PAGINATION_OPERATIONS, columns, (key, op) =>
+			lookup(results[key], op))}`)
+	}
+
+	// Keys are engine and search method, e.g. postgres-tsvector
+	for (const [scale, results] of Object.entries(data.searchTests ?? {})) {
+		const columns = Object.keys(results).map(key => {
+			const [engine, method] = key.split('-')
+			return { key, label: `${ENGINE_LABELS[engine as Engine] ?? engine} ${method}` }
+		})
+		const queries = Object.entries(data.searchQueries?.[Number(scale)] ?? {})
+			.map(([op, query]) => `${op}: ${escapeHtml(query.phrase ? `"${query.terms.join(' ')}"` : query.terms.join(' '))}`)
+			.join(', ')
+		const indexes = columns.map(({ key, label }) => {
+			const { build, sizeBytes } = results[key]
+			return `<tr><th>${escapeHtml(label)}</th><td>${build ? escapeHtml(formatCell(build)) : '-'}</td><td>${sizeBytes === null ? '-' : formatBytes(sizeBytes)}</td></tr>`
+		})
+		sections.push(`<h2>Text search (scale ${scale})</h2>${queries ? `<p>${queries}</p>` : ''}${latencyTable(SEARCH_OPERATIONS, columns, (key, op) =>
+			lookup(results[key].operations, op))}
+			<table><thead><tr><th>Variant</th><th>Index build (median ± std dev)</th><th>Index size</th></tr></thead><tbody>${indexes.join('\n')}</tbody></table>`)
+	}
+
+	// Rows per second of every table, generating the rows isn't part of it
+	for (const [scale, results] of Object.entries(data.seedingTests ?? {})) {
+		const engines = engineColumns(results)
+		if (engines.length === 0) continue
+		const rows = engines.map(({ key, label }) => {
+			const { tables, total, batches, batchSize, peakHeapBytes } = results[key]
+			const cells = [...SEEDING_TABLES.map(table => tables[table]), total]
+				.map(result => `<td>${result.rows} rows, ${result.rowsPerSecond.toFixed(0)} rows/s</td>`)
+				.join('')
+			return `<tr><th>${escapeHtml(label)}</th>${cells}<td>${batches} of ${batchSize}</td><td>${formatBytes(peakHeapBytes)}</td></tr>`
+		})
+		sections.push(`<h2>Seeding (scale ${scale})</h2><div class="grid">${chart({
+			type: 'bar',
+			title: `Seeding throughput at scale ${scale}`,
+			labels: SEEDING_TABLES,
+			datasets: engines.map(({ key, label }) => ({
+				label,
+				data: SEEDING_TABLES.map(table => results[key].tables[table].rowsPerSecond),
+			})),
+			yTitle: 'Rows per second',
+		})}</div>
+			<table><thead><tr><th>Engine</th>${SEEDING_TABLES.map(table => `<th>${table}</th>`).join('')}<th>total</th><th>Batches</th><th>Peak heap</th></tr></thead><tbody>${rows.join('\n')}</tbody></table>`)
+	}
+
+	// Keys are engine and transaction mode, e.g. postgres-batched
+	for (const [scale, results] of Object.entries(data.transactionTests ?? {})) {
+		const columns = Object.keys(results).map(key => {
+			const [engine, mode] = key.split('-')
+			return { key, label: `${ENGINE_LABELS[engine as Engine] ?? engine} ${mode}` }
+		})
+		const rows = columns.flatMap(({ key, label }) => results[key].contention.map(run =>
+			`<tr><th>${escapeHtml(label)}</th><td>${run.operation}</td><td>${run.writers}</td><td>${run.committed}/${run.operations}</td><td>${run.failed}</td><td>${run.retries}</td><td>${run.opsPerSecond.toFixed(1)}</td><td>${run.consistent === null ? '-' : run.consistent ? 'yes' : 'no'}</td></tr>`))
+		sections.push(`<h2>Transactions (scale ${scale})</h2>${latencyTable(TRANSACTION_OPERATIONS, columns, (key, op) =>
+			lookup(results[key].operations, op))}
+			<table><thead><tr><th>Variant</th><th>Contended operation</th><th>Writers</th><th>Committed</th><th>Failed</th><th>Retries</th><th>ops/s</th><th>Consistent</th></tr></thead><tbody>${rows.join('\n')}</tbody></table>`)
+	}
+
+	// Throughput mode: ops/sec over the number of concurrent workers
+	for (const [scale, results] of Object.entries(data.throughputTests ?? {})) {
+		const runs = Object.entries(results)
+		sections.push(`<h2>${escapeHtml(String(data.throughputOperation))} throughput (scale ${scale})</h2><div class="grid">${chart({
+			type: 'line',
+			title: `${data.throughputOperation} throughput`,
+			labels: runs[0]?.[1].map(run => run.concurrency) ?? [],
+			datasets: runs.map(([key, levels]) => ({
+				label: variantLabel(key),
+				data: levels.map(run => run.opsPerSecond),
+			})),
+			xTitle: 'Concurrent workers',
+			yTitle: 'ops/sec',
+		})}</div>`)
+	}
+
+	for (const [scale, results] of Object.entries(data.workloadTests ?? {})) {
+		const engines = engineColumns(results)
+		const operations = [...new Set(Object.values(results).flatMap(r => Object.keys(r!.operations)))]
+		const throughput = engines
+			.map(({ key, label }) => `${escapeHtml(label)}: ${results[key].opsPerSecond.toFixed(1)} ops/s`)
+			.join(', ')
+		sections.push(`<h2>Workload ${escapeHtml(data.workload?.preset ?? '')} (scale ${scale})</h2>
+			<p>${throughput}</p>${latencyTable(operations, engines, (engine, op) =>
+			lookup(results[engine as Engine]?.operations, op))}`)
+	}
+
+	// Every operation of every scale in one table
+	if (scales.length > 0) {
+		const tables = scales.map(scale => {
+			const columns = Object.keys(data.scaleTests[scale]).map(key => ({ key, label: variantLabel(key) }))
+			const checks = data.verification?.[scale]
+			return `<h3>Scale ${scale}</h3>${latencyTable(OPERATIONS, columns, (key, op) =>
+				lookup(data.scaleTests[scale][key], op), (key, op) =>
+				checks?.[key]?.[op as Operation]?.matches === false)}`
+		})
+		sections.push(`<h2>Summary</h2><p>The fastest variant per operation is bold. Operations marked as
+			mismatch returned other rows or affected other rows than the first variant of their suite.</p>${tables.join('\n')}`)
+	}
+
+	const run = data.run
+	const meta = [
+		run && `Run ${escapeHtml(run.runId)}`,
+		run?.git && `commit ${run.git.commit.slice(0, 8)}${run.git.dirty ? ' (dirty)' : ''}`,
+		`seed ${data.seed ?? 'random'}`,
+	].filter(Boolean).join(' · ')
+
+	return `<!DOCTYPE html>
+<html>
+<head>
+	<meta charset="utf-8">
+	<title>Benchmark report</title>
+	<style>
+		body { font-family: sans-serif; padding: 32px; }
+		.grid { display: grid; grid-template-columns: repeat(auto-fit, minmax(560px, 1fr)); gap: 24px; }
+		.chart { position: relative; }
+		table { border-collapse: collapse; margin: 16px 0; }
+		th, td { border: 1px solid #ccc; padding: 4px 8px; text-align: right; }
+		thead th, tbody th { background: #f4f4f4; }
+		tbody th { text-align: left; }
+		td.mismatch { background: #fdd; }
+	</style>
+</head>
+<body>
+	<h1>Benchmark report</h1>
+	<p>${meta}</p>
+	${sections.join('\n')}
+	<script>${chartLibrary()}</script>
+	<script>
+		const charts = ${JSON.stringify(charts).replace(/</g, '\\u003c')};
+		charts.forEach((spec, i) => {
+			new Chart(document.getElementById('chart-' + i), {
+				type: spec.type,
+				data: { labels: spec.labels, datasets: spec.datasets },
+				options: {
+					plugins: { title: { display: true, text: spec.title } },
+					scales: {
+						x: { title: { display: !!spec.xTitle, text: spec.xTitle } },
+						y: {
+							type: spec.logarithmic ? 'logarithmic' : 'linear',
+							beginAtZero: !spec.logarithmic,
+							title: { display: true, text: spec.yTitle },
+						},
 					},
-					${withAtlas ? JSON.stringify({
-						label: "MongoDB Atlas",
-						fillColor: "red",
-						data: [data[scale]['atlas']['writes'], data[scale]['atlas']['simpleRead'], data[scale]['atlas']['filteredRead'], data[scale]['atlas']['projectedRead'], data[scale]['atlas']['sortedRead'], data[scale]['atlas']['update'], data[scale]['atlas']['delete']]
-					}) : ""}
-				]
-			},
-			options: {
-				scales: { y: { beginAtZero: true } },
-				animation: { duration: 0 },
-			}
+					animation: { duration: 0 },
+				}
+			});
 		});
 	</script>
-	</body></html>`
-
-
-	writeFileSync(`charts_${scale}.html`, html)
+</body>
+</html>
+`
 }
 
-const data = JSON.parse(readFileSync('test-results.json', 'utf8'))
+const { values, positionals } = parseArgs({
+	args: process.argv.slice(2),
+	options: {
+		output: { type: 'string' },
+		history: { type: 'string' },
+		help: { type: 'boolean', short: 'h' },
+	},
+	allowPositionals: true,
+})
 
-generateChart(data, '100', false)
-generateChart(data, '1000', false)
\ No newline at end of file
+if (values.help) {
+	console.log(USAGE)
+} else {
+	const source = positionals[0] ?? 'test-results.json'
+	const output = values.output ?? 'report.html'
+	writeFileSync(output, generateReport(loadRun(source, values.history ?? DEFAULT_HISTORY_DIR)))
+	console.log(`[INFO] Report of ${source} written to ${output}`)
+}
@@ -0,0 +1,140 @@
+import { afterAll, describe, expect, test } from "bun:test";
+import { spawnSync } from "child_process";
+import { mkdtempSync, rmSync, writeFileSync } from "fs";
+import os from "os";
+import path from "path";
+import { createAdapters } from "./adapters";
+import { parseCliArgs, UsageError } from "./cli";
+
+// No targets, a targets.json of the working copy would add variants
+const dir = mkdtempSync(path.join(os.tmpdir(), "cli-test-"));
+const noTargets = path.join(dir, "targets.json");
+writeFileSync(noTargets, JSON.stringify({ targets: [] }));
+afterAll(() => rmSync(dir, { recursive: true, force: true }));
+
+const parse = (...argv: string[]) =>
+  parseCliArgs([...argv, "--targets", noTargets], createAdapters());
+
+const keys = (...argv: string[]) => parse(...argv).adapters.map((a) => a.key);
+
+describe("parseCliArgs", () => {
+  test("defaults to every variant at scales 100 and 1000", () => {
+    const plan = parse();
+    expect(plan.scales).toEqual([100, 1000]);
+    expect(plan.suites).toEqual(["basic", "relational", "indexed"]);
+    expect(plan.measure).toEqual({ warmup: 1, iterations: 5, explain: false });
+    expect(plan.output).toBe("test-results.json");
+    expect(plan.history).toBe("runs");
+    expect(plan.docker).toBe(true);
+    expect(plan.adapters.length).toBe(createAdapters().length);
+  });
+
+  test("expands geometric scale series", () => {
+    expect(parse("--scales", "1000..64000x2").scales)
+      .toEqual([1000, 2000, 4000, 8000, 16000, 32000, 64000]);
+    expect(parse("--scales", "100..1000x3").scales).toEqual([100, 300, 900]);
+    expect(parse("--scales", "100..400x1.5").scales).toEqual([100, 150, 225, 338]);
+  });
+
+  test("mixes scales and series without duplicates", () => {
+    const plan = parse("--scales", "500,1000..4000x2,2000");
+    expect(plan.scales).toEqual([500, 1000, 2000, 4000]);
+    expect(plan.aggregationScale).toBe(4000);
+  });
+
+  test("selects variants by engine and key", () => {
+    expect(keys("--engines", "sqlite")).toEqual(["sqliteBasic", "sqliteWithRelations"]);
+    expect(keys("--variants", "mongoBasic, postgresBasic", "--suite", "basic"))
+      .toEqual(["postgresBasic", "mongoBasic"]);
+    expect(keys("--engines", "mongo", "--variants", "mongoEmbedded,postgresBasic"))
+      .toEqual(["mongoEmbedded"]);
+  });
+
+  test("keeps only the variants of the selected suites", () => {
+    const plan = parse("--engines", "sqlite", "--suite", "basic");
+    expect(plan.suites).toEqual(["basic"]);
+    expect(plan.aggregation).toBe(false);
+    expect(plan.adapters.map((a) => a.key)).toEqual(["sqliteBasic"]);
+  });
+
+  test("needs no Docker for SQLite alone", () => {
+    expect(parse("--engines", "sqlite").docker).toBe(false);
+    expect(parse("--engines", "postgres", "--no-docker").docker).toBe(false);
+  });
+
+  test("parses the measurement and history options", () => {
+    const plan = parse("--iterations", "10", "--warmup", "0", "--seed", "42", "--no-history");
+    expect(plan.measure).toMatchObject({ warmup: 0, iterations: 10 });
+    expect(plan.seed).toBe(42);
+    expect(plan.history).toBeNull();
+  });
+
+  test("sets up throughput mode on the scale suites", () => {
+    const plan = parse("--throughput", "simpleRead", "--concurrency", "1,8", "--duration", "2");
+    expect(plan.suites).toEqual(["basic", "relational", "indexed"]);
+    expect(plan.aggregation).toBe(false);
+    expect(plan.throughput).toEqual({
+      operation: "simpleRead",
+      concurrency: [1, 8],
+      durationMs: 2000,
+    });
+  });
+
+  test("normalizes a workload mix", () => {
+    const plan = parse("--workload", "read-heavy", "--mix", "read=3,scan=1");
+    expect(plan.workload!.spec.proportions).toEqual({ read: 0.75, scan: 0.25 });
+    expect(plan.adapters.every((a) => a.suite === "relational")).toBe(true);
+  });
+
+  test.each([
+    [["--scales", "10"], '--scales must be an integer >= 100, got "10"'],
+    [["--scales", ","], 'Empty list ","'],
+    [["--scales", "50..1000x2"], '--scales must be an integer >= 100, got "50"'],
+    [["--scales", "4000..1000x2"], '--scales series "4000..1000x2" needs <from> <= <to>'],
+    [["--scales", "1000..4000x1"], "and a factor above 1"],
+    [["--scales", "1000..4000"], '--scales must be an integer >= 100, got "1000..4000"'],
+    [["--engines", "oracle"], "Unknown engine: oracle"],
+    [["--variants", "postgresBasic"], "suites need at least one relational variant"],
+    [["--variants", "mongoAtlas"], "Unknown variant: mongoAtlas"],
+    [["--suite", "everything"], "Unknown suite: everything"],
+    [["--iterations", "0"], "--iterations must be an integer >= 1"],
+    [["--concurrency", "4"], "--concurrency and --duration need --throughput"],
+    [["--throughput", "update"], "Unknown throughput operation: update"],
+    [["--throughput", "simpleRead", "--suite", "graph"], "--throughput can't be combined"],
+    [["--mix", "read=1"], "--mix, --distribution and --operation-count need --workload"],
+    [["--workload", "read-heavy", "--mix", "read"], "--mix needs <operation>=<ratio> pairs"],
+    [["--batch-size", "10"], "--batch-size needs the seeding suite"],
+    [["--engines", "sqlite", "--suite", "transaction"], "The transaction suite needs"],
+    [["--mongo-images", "mongo:7", "--no-docker"], "need Docker, drop --no-docker"],
+    [["--engines", "sqlite", "--mongo-images", "mongo:7"], "--mongo-images is set, but no mongo"],
+    [["--engines", "sqlite", "--network", "same-az"], "--network needs a Postgres or MongoDB"],
+    [["--jitter", "5"], "--jitter and --bandwidth need --rtt"],
+    [["--unknown"], "Unknown option '--unknown'"],
+  ])("rejects %j", (argv, message) => {
+    expect(() => parse(...argv)).toThrow(UsageError);
+    expect(() => parse(...argv)).toThrow(message);
+  });
+});
+
+describe("network profiles", () => {
+  test("drops SQLite and adds a custom profile", () => {
+    const plan = parse("--network", "same-az", "--rtt", "20", "--jitter", "2");
+    expect(Object.keys(plan.network!)).toEqual(["same-az", "custom"]);
+    expect(plan.network!.custom).toEqual({ rttMs: 20, jitterMs: 2, bandwidthMbps: null });
+    expect(plan.adapters.some((a) => a.engine === "sqlite")).toBe(false);
+    expect(plan.output).toBe("network-results.json");
+  });
+});
+
+describe("test-runner", () => {
+  test("exits with code 2 and the usage on a usage error", () => {
+    const run = spawnSync(
+      process.execPath,
+      ["run", "src/test-runner.ts", "--scales", "10", "--targets", noTargets],
+      { encoding: "utf8", timeout: 30_000 },
+    );
+    expect(run.status).toBe(2);
+    expect(run.stderr).toContain('[ERROR] --scales must be an integer >= 100, got "10"');
+    expect(run.stderr).toContain("Usage: bun run src/test-runner.ts");
+  });
+});
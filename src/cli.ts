@@ -0,0 +1,586 @@
+import { parseArgs } from "util";
+import {
+  createTargetAdapters,
+  ENGINE_LABELS,
+  supportsBulkLoad,
+  supportsSearch,
+  supportsTransactions,
+  type DatabaseAdapter,
+} from "./adapters";
+import { DEFAULT_BATCH_SIZE } from "./data-generator";
+import { DEFAULT_IMAGES, type ContainerEngine } from "./docker";
+import { DEFAULT_HISTORY_DIR } from "./history";
+import { THROUGHPUT_OPERATIONS } from "./performance-test";
+import { NETWORK_PROFILES } from "./proxy";
+import { DEFAULT_TARGETS_FILE, loadTargets, TargetConfigError } from "./targets";
+import { KEY_DISTRIBUTIONS, WORKLOAD_OPERATIONS, WORKLOAD_PRESETS } from "./workload";
+import type {
+  ConnectOptions,
+  Engine,
+  KeyDistribution,
+  MeasureOptions,
+  NetworkProfile,
+  Scale,
+  Suite,
+  ThroughputOperation,
+  WorkloadOperation,
+  WorkloadPreset,
+  WorkloadSpec,
+} from "./types";
+
+// Smaller datasets have too few users and posts for the engine suites
+const MIN_SCALE = 100;
+const SCALE_SUITES: Suite[] = ["basic", "relational", "indexed"];
+// Suites comparing engines, they run on the relational variant of each engine
+const ENGINE_SUITES = ["aggregation", "graph", "pagination", "search", "seeding", "transaction"];
+const SUITE_NAMES = [...SCALE_SUITES, ...ENGINE_SUITES];
+// MongoDB transactions need a replica set, which a --no-docker database may not
+// be. Seeding is meant for large scales, the other suites seed the small ones.
+const DEFAULT_SUITES = SUITE_NAMES.filter((suite) => !["seeding", "transaction"].includes(suite));
+
+export const USAGE = `Usage: bun run src/test-runner.ts [options]
+
+Options:
+  --scales <list>       Comma separated scales to run (posts, at least ${MIN_SCALE}), default 100,1000.
+                        <from>..<to>x<factor> is a geometric series, e.g.
+                        1000..64000x2 for 1000,2000,4000,...,64000
+  --engines <list>      Only run variants of these engines (${Object.keys(ENGINE_LABELS).join(", ")})
+  --variants <list>     Only run these variants, e.g. postgresBasic,mongoWithIndexes
+  --suite <list>        Only run these suites (${SUITE_NAMES.join(", ")}),
+                        default all but seeding and transaction
+  --iterations <n>      Measured iterations per operation, default 5
+  --warmup <n>          Unrecorded warmup runs per operation, default 1
+  --seed <n>            Seed for the generated data, makes datasets reproducible
+  --output <path>       Where to write the results, default test-results.json
+  --history <dir>       Where every run is kept as <run id>.json, default ${DEFAULT_HISTORY_DIR}
+  --no-history          Don't add this run to the history
+  --no-docker           Use already running databases instead of starting containers
+  --reuse-containers    Use the containers of an earlier --reuse-containers run and
+                        keep the started ones running afterwards
+  --pool-size <n>       Prisma connection_limit and MongoDB maxPoolSize
+  --explain             Capture the query plan of every operation next to its timings
+                        (Postgres and MongoDB)
+  --targets <path>      Config file of additional databases to benchmark, default
+                        ${DEFAULT_TARGETS_FILE} if it exists (see targets.example.json)
+  --writers <n>         Concurrent conflicting writers of the transaction suite, default 8
+  --batch-size <n>      Rows per insert of the seeding suite, default ${DEFAULT_BATCH_SIZE}
+
+Throughput mode:
+  --throughput <op>     Load test one operation instead of running the suites
+                        (${THROUGHPUT_OPERATIONS.join(", ")})
+  --concurrency <list>  Concurrent workers per run, default 1,4,16,64
+  --duration <seconds>  Duration of every concurrency level, default 10
+
+Workload mode:
+  --workload <preset>   Run a YCSB style mixed workload instead of the suites
+                        (${Object.keys(WORKLOAD_PRESETS).join(", ")})
+  --mix <ratios>        Override the operation ratios, e.g. read=0.8,scan=0.2
+                        (${WORKLOAD_OPERATIONS.join(", ")})
+  --distribution <d>    Override the key distribution (${KEY_DISTRIBUTIONS.join(", ")})
+  --operation-count <n> Operations per engine, default 1000
+
+Version matrix:
+  --postgres-images <list>  Run the benchmark once per Postgres image, e.g.
+                            postgres:15-alpine,postgres:16-alpine,postgres:17-alpine
+  --mongo-images <list>     Same for MongoDB, e.g. mongo:6,mongo:7,mongo:8
+                            Engines without a list use their default image, SQLite
+                            isn't part of the matrix. Writes matrix-results.json.
+
+Network emulation:
+  --network <list>      Run the Postgres and MongoDB variants directly and then once per
+                        network profile through a latency proxy
+                        (${Object.keys(NETWORK_PROFILES).join(", ")}). Writes network-results.json.
+  --rtt <ms>            Adds a custom profile with this round trip time
+  --jitter <ms>         Jitter of the custom profile, default 0
+  --bandwidth <mbit/s>  Bandwidth of the custom profile per direction, default unlimited
+
+Other:
+  --dry-run             Print the plan without running anything
+  -h, --help            Show this message`;
+
+export class UsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "UsageError";
+  }
+}
+
+export interface RunPlan {
+  scales: Scale[];
+  suites: Suite[];
+  aggregation: boolean;
+  aggregationScale: Scale;
+  graph: boolean;
+  pagination: boolean;
+  search: boolean;
+  seeding: boolean;
+  batchSize: number;
+  transaction: boolean;
+  writers: number;
+  adapters: DatabaseAdapter[];  // Every selected adapter, including those only needed for engine suites
+  measure: MeasureOptions;
+  connect: ConnectOptions;
+  throughput?: {
+    operation: ThroughputOperation;
+    concurrency: number[];
+    durationMs: number;
+  };
+  workload?: {
+    preset: WorkloadPreset;
+    spec: WorkloadSpec;
+    operationCount: number;
+  };
+  // Images per engine, every image is a separate run of the adapters of its engine
+  matrix?: Partial<Record<ContainerEngine, string[]>>;
+  // Profiles by name, every profile is a separate run after a direct one
+  network?: Record<string, NetworkProfile>;
+  seed?: number;
+  output: string;
+  history: string | null;  // null if the run isn't stored
+  docker: boolean;
+  reuseContainers: boolean;
+  dryRun: boolean;
+  help: boolean;
+}
+
+function parseList(value: string | undefined): string[] | undefined {
+  if (value === undefined) return undefined;
+
+  const items = value.split(",").map((item) => item.trim()).filter(Boolean);
+  if (items.length === 0) {
+    throw new UsageError(`Empty list "${value}"`);
+  }
+  return items;
+}
+
+function parseCount(name: string, value: string | undefined, fallback: number, min: number) {
+  if (value === undefined) return fallback;
+
+  const count = Number(value);
+  if (!Number.isInteger(count) || count < min) {
+    throw new UsageError(`--${name} must be an integer >= ${min}, got "${value}"`);
+  }
+  return count;
+}
+
+// "read=0.8,scan=0.2" to proportions summing up to 1
+function parseMix(value: string): WorkloadSpec["proportions"] {
+  const proportions: WorkloadSpec["proportions"] = {};
+  for (const item of parseList(value)!) {
+    const [op, ratio] = item.split("=");
+    checkKnown("workload operation", [op], WORKLOAD_OPERATIONS);
+    const weight = Number(ratio);
+    if (ratio === undefined || !Number.isFinite(weight) || weight < 0) {
+      throw new UsageError(`--mix needs <operation>=<ratio> pairs, got "${item}"`);
+    }
+    proportions[op as WorkloadOperation] = weight;
+  }
+
+  const total = Object.values(proportions).reduce((sum, w) => sum + w, 0);
+  if (total === 0) {
+    throw new UsageError(`--mix "${value}" has no operation with a ratio above 0`);
+  }
+  for (const op of Object.keys(proportions) as WorkloadOperation[]) {
+    proportions[op]! /= total;
+  }
+  return proportions;
+}
+
+// Every item is a scale or a geometric series, e.g. "100,1000..8000x2"
+function parseScales(value: string | undefined): Scale[] {
+  const scales: Scale[] = [];
+  for (const item of parseList(value) ?? ["100", "1000"]) {
+    const series = item.match(/^(\d+)\.\.(\d+)x(\d+(?:\.\d+)?)$/);
+    if (!series) {
+      scales.push(parseCount("scales", item, 0, MIN_SCALE));
+      continue;
+    }
+
+    const [from, to] = [parseCount("scales", series[1], 0, MIN_SCALE), Number(series[2])];
+    const factor = Number(series[3]);
+    if (to < from || factor <= 1) {
+      throw new UsageError(
+        `--scales series "${item}" needs <from> <= <to> and a factor above 1`,
+      );
+    }
+    for (let scale = from; scale <= to; scale *= factor) {
+      scales.push(Math.round(scale));
+    }
+  }
+  return [...new Set(scales)];
+}
+
+// Milliseconds and bandwidths, fractions allowed
+function parseAmount(name: string, value: string | undefined, fallback: number, min: number) {
+  if (value === undefined) return fallback;
+
+  const amount = Number(value);
+  if (value.trim() === "" || !Number.isFinite(amount) || amount < min) {
+    throw new UsageError(`--${name} must be a number >= ${min}, got "${value}"`);
+  }
+  return amount;
+}
+
+// The named profiles followed by the custom one of --rtt
+function parseNetwork(values: {
+  network?: string;
+  rtt?: string;
+  jitter?: string;
+  bandwidth?: string;
+}): Record<string, NetworkProfile> | undefined {
+  const names = parseList(values.network) ?? [];
+  checkKnown("network profile", names, Object.keys(NETWORK_PROFILES));
+  const profiles = Object.fromEntries(names.map((name) => [name, NETWORK_PROFILES[name]]));
+
+  if (values.rtt !== undefined) {
+    profiles.custom = {
+      rttMs: parseAmount("rtt", values.rtt, 0, 0),
+      jitterMs: parseAmount("jitter", values.jitter, 0, 0),
+      bandwidthMbps: values.bandwidth === undefined
+        ? null
+        : parseAmount("bandwidth", values.bandwidth, 0, 0.001),
+    };
+  } else if (values.jitter || values.bandwidth) {
+    throw new UsageError("--jitter and --bandwidth need --rtt");
+  }
+  return Object.keys(profiles).length > 0 ? profiles : undefined;
+}
+
+function checkKnown(name: string, values: string[], known: string[]) {
+  const unknown = values.filter((value) => !known.includes(value));
+  if (unknown.length > 0) {
+    throw new UsageError(
+      `Unknown ${name}: ${unknown.join(", ")} (expected one of ${known.join(", ")})`,
+    );
+  }
+}
+
+// The built-in variants followed by the variants of the configured targets
+function withTargets(builtIn: DatabaseAdapter[], path: string | undefined): DatabaseAdapter[] {
+  let targets;
+  try {
+    targets = loadTargets(path ?? DEFAULT_TARGETS_FILE, path !== undefined);
+  } catch (error) {
+    if (error instanceof TargetConfigError) throw new UsageError(error.message);
+    throw error;
+  }
+
+  const adapters = [...builtIn, ...createTargetAdapters(targets)];
+  const keys = adapters.map((a) => a.key);
+  const taken = keys.find((key, i) => keys.indexOf(key) !== i);
+  if (taken) {
+    throw new UsageError(`Target variant ${taken} has the key of another variant, rename its target`);
+  }
+  return adapters;
+}
+
+// SQLite has no network and targets have a real one, only the others are proxied
+export function proxiedAdapters(adapters: DatabaseAdapter[]): DatabaseAdapter[] {
+  return adapters.filter((a) => a.engine !== "sqlite" && !a.target);
+}
+
+export function parseCliArgs(argv: string[], builtIn: DatabaseAdapter[]): RunPlan {
+  let values;
+  try {
+    ({ values } = parseArgs({
+      args: argv,
+      options: {
+        scales: { type: "string" },
+        engines: { type: "string" },
+        variants: { type: "string" },
+        suite: { type: "string" },
+        iterations: { type: "string" },
+        warmup: { type: "string" },
+        seed: { type: "string" },
+        output: { type: "string" },
+        history: { type: "string" },
+        "no-history": { type: "boolean" },
+        "no-docker": { type: "boolean" },
+        "reuse-containers": { type: "boolean" },
+        "postgres-images": { type: "string" },
+        "mongo-images": { type: "string" },
+        network: { type: "string" },
+        rtt: { type: "string" },
+        jitter: { type: "string" },
+        bandwidth: { type: "string" },
+        "pool-size": { type: "string" },
+        targets: { type: "string" },
+        explain: { type: "boolean" },
+        writers: { type: "string" },
+        "batch-size": { type: "string" },
+        throughput: { type: "string" },
+        concurrency: { type: "string" },
+        duration: { type: "string" },
+        workload: { type: "string" },
+        mix: { type: "string" },
+        distribution: { type: "string" },
+        "operation-count": { type: "string" },
+        "dry-run": { type: "boolean" },
+        help: { type: "boolean", short: "h" },
+      },
+      strict: true,
+      allowPositionals: false,
+    }));
+  } catch (error) {
+    throw new UsageError((error as Error).message);
+  }
+
+  const scales = parseScales(values.scales);
+
+  const engines = parseList(values.engines);
+  if (engines) checkKnown("engine", engines, Object.keys(ENGINE_LABELS));
+
+  const available = withTargets(builtIn, values.targets);
+
+  const variants = parseList(values.variants);
+  if (variants) checkKnown("variant", variants, available.map((a) => a.key));
+
+  if (values.throughput) {
+    checkKnown("throughput operation", [values.throughput], THROUGHPUT_OPERATIONS);
+  } else if (values.concurrency || values.duration) {
+    throw new UsageError("--concurrency and --duration need --throughput");
+  }
+
+  if (values.explain && (values.throughput || values.workload)) {
+    throw new UsageError("--explain can't be combined with --throughput or --workload");
+  }
+
+  if (values.workload) {
+    checkKnown("workload", [values.workload], Object.keys(WORKLOAD_PRESETS));
+    if (values.throughput || values.suite) {
+      throw new UsageError("--workload can't be combined with --throughput or --suite");
+    }
+    if (values.distribution) {
+      checkKnown("distribution", [values.distribution], KEY_DISTRIBUTIONS);
+    }
+  } else if (values.mix || values.distribution || values["operation-count"]) {
+    throw new UsageError("--mix, --distribution and --operation-count need --workload");
+  }
+
+  // Throughput mode only runs on the variants of the scale suites, workload
+  // mode on the relational variant of every engine
+  const suiteNames = parseList(values.suite) ??
+    (values.throughput ? SCALE_SUITES : values.workload ? [] : DEFAULT_SUITES);
+  checkKnown("suite", suiteNames, SUITE_NAMES);
+  if (values.throughput && suiteNames.some((s) => ENGINE_SUITES.includes(s))) {
+    throw new UsageError(
+      `--throughput can't be combined with the ${ENGINE_SUITES.join(", ")} suites`,
+    );
+  }
+  const suites = SCALE_SUITES.filter((suite) => suiteNames.includes(suite));
+  const aggregation = suiteNames.includes("aggregation");
+  const graph = suiteNames.includes("graph");
+  const pagination = suiteNames.includes("pagination");
+  const seeding = suiteNames.includes("seeding");
+  const transaction = suiteNames.includes("transaction");
+  if (values["batch-size"] && !seeding) {
+    throw new UsageError("--batch-size needs the seeding suite");
+  }
+  if (values.writers && !transaction) {
+    throw new UsageError("--writers needs the transaction suite");
+  }
+
+  const matching = available.filter((adapter) =>
+    (!engines || engines.includes(adapter.engine)) &&
+    (!variants || variants.includes(adapter.key))
+  );
+
+  // Only Postgres and MongoDB search text, without them the default suites
+  // leave the search suite out
+  const search = suiteNames.includes("search") && (
+    values.suite !== undefined ||
+    matching.some((a) => a.suite === "relational" && supportsSearch(a))
+  );
+
+  const engineSuites = aggregation || graph || pagination || search || seeding || transaction;
+
+  const scaleAdapters = matching.filter((a) => suites.includes(a.suite));
+  const engineAdapters = engineSuites || values.workload
+    ? matching.filter((a) => a.suite === "relational")
+    : [];
+
+  if (values.workload && engineAdapters.length === 0) {
+    throw new UsageError("--workload needs at least one relational variant, none is selected");
+  }
+  if (engineSuites && engineAdapters.length === 0) {
+    throw new UsageError(
+      `The ${ENGINE_SUITES.join(", ")} suites need at least one relational variant, none is selected`,
+    );
+  }
+  if (search && !engineAdapters.some(supportsSearch)) {
+    throw new UsageError(
+      "The search suite needs a relational Postgres or MongoDB variant, none is selected",
+    );
+  }
+  if (seeding && !engineAdapters.some(supportsBulkLoad)) {
+    throw new UsageError(
+      "The seeding suite needs a relational Prisma, MongoDB or SQLite variant, none is selected",
+    );
+  }
+  if (transaction && !engineAdapters.some(supportsTransactions)) {
+    throw new UsageError(
+      "The transaction suite needs a relational Postgres or MongoDB variant, none is selected",
+    );
+  }
+  if (suites.length > 0 && scaleAdapters.length === 0) {
+    throw new UsageError(
+      `No variant matches the selected engines/variants in suite ${suites.join(", ")}`,
+    );
+  }
+
+  let adapters = matching.filter((a) =>
+    scaleAdapters.includes(a) || engineAdapters.includes(a)
+  );
+
+  const imageLists: Partial<Record<ContainerEngine, string[]>> = {
+    postgres: parseList(values["postgres-images"]),
+    mongo: parseList(values["mongo-images"]),
+  };
+  let matrix: RunPlan["matrix"];
+  if (imageLists.postgres || imageLists.mongo) {
+    if (values["no-docker"]) {
+      throw new UsageError("--postgres-images and --mongo-images need Docker, drop --no-docker");
+    }
+
+    matrix = {};
+    for (const engine of Object.keys(DEFAULT_IMAGES) as ContainerEngine[]) {
+      // Targets aren't containers, they don't take part
+      const selected = adapters.some((a) => a.engine === engine && !a.target);
+      if (imageLists[engine] && !selected) {
+        throw new UsageError(`--${engine}-images is set, but no ${engine} variant is selected`);
+      }
+      if (selected) matrix[engine] = imageLists[engine] ?? [DEFAULT_IMAGES[engine]];
+    }
+  }
+
+  const network = parseNetwork(values);
+  if (network) {
+    if (matrix) {
+      throw new UsageError("--network can't be combined with --postgres-images or --mongo-images");
+    }
+    adapters = proxiedAdapters(adapters);
+    if (adapters.length === 0) {
+      throw new UsageError("--network needs a Postgres or MongoDB variant, none is selected");
+    }
+  }
+
+  return {
+    scales,
+    suites,
+    aggregation,
+    aggregationScale: Math.max(...scales),
+    graph,
+    pagination,
+    search,
+    seeding,
+    batchSize: parseCount("batch-size", values["batch-size"], DEFAULT_BATCH_SIZE, 1),
+    transaction,
+    writers: parseCount("writers", values.writers, 8, 1),
+    adapters,
+    measure: {
+      warmup: parseCount("warmup", values.warmup, 1, 0),
+      iterations: parseCount("iterations", values.iterations, 5, 1),
+      explain: values.explain ?? false,
+    },
+    connect: {
+      poolSize: values["pool-size"] === undefined
+        ? undefined
+        : parseCount("pool-size", values["pool-size"], 0, 1),
+      captureQueries: values.explain ?? false,
+    },
+    throughput: values.throughput === undefined ? undefined : {
+      operation: values.throughput as ThroughputOperation,
+      concurrency: (parseList(values.concurrency) ?? ["1", "4", "16", "64"])
+        .map((level) => parseCount("concurrency", level, 0, 1)),
+      durationMs: parseCount("duration", values.duration, 10, 1) * 1000,
+    },
+    workload: values.workload === undefined ? undefined : {
+      preset: values.workload as WorkloadPreset,
+      spec: {
+        ...WORKLOAD_PRESETS[values.workload as WorkloadPreset],
+        ...(values.mix && { proportions: parseMix(values.mix) }),
+        ...(values.distribution && {
+          distribution: values.distribution as KeyDistribution,
+        }),
+      },
+      operationCount: parseCount("operation-count", values["operation-count"], 1000, 1),
+    },
+    matrix,
+    network,
+    seed: values.seed === undefined
+      ? undefined
+      : parseCount("seed", values.seed, 0, 0),
+    output: values.output ??
+      (matrix ? "matrix-results.json" : network ? "network-results.json" : "test-results.json"),
+    history: values["no-history"] ? null : values.history ?? DEFAULT_HISTORY_DIR,
+    // SQLite is embedded and targets run elsewhere, containers are only
+    // needed for the other variants
+    docker: !values["no-docker"] &&
+      adapters.some((a) => a.engine !== "sqlite" && !a.target),
+    reuseContainers: values["reuse-containers"] ?? false,
+    dryRun: values["dry-run"] ?? false,
+    help: values.help ?? false,
+  };
+}
+
+function formatMix(spec: WorkloadSpec): string {
+  const ratios = Object.entries(spec.proportions)
+    .map(([op, ratio]) => `${op} ${Math.round(ratio * 100)}%`);
+  return [...ratios, `${spec.distribution} keys`].join(", ");
+}
+
+// e.g. "60ms RTT ± 5ms, 1000 Mbit/s"
+export function formatNetwork(profile: NetworkProfile): string {
+  const jitter = profile.jitterMs > 0 ? ` ± ${profile.jitterMs}ms` : "";
+  const bandwidth = profile.bandwidthMbps === null ? "unlimited" : `${profile.bandwidthMbps} Mbit/s`;
+  return `${profile.rttMs}ms RTT${jitter}, ${bandwidth}`;
+}
+
+export function formatPlan(plan: RunPlan): string {
+  const engines = [...new Set(plan.adapters.map((a) => a.engine))] as Engine[];
+
+  return [
+    `Scales:      ${plan.scales.join(", ")}`,
+    `Suites:      ${plan.suites.join(", ") || "-"}`,
+    `Aggregation: ${plan.aggregation ? `yes (scale ${plan.aggregationScale})` : "no"}`,
+    `Graph:       ${plan.graph ? "yes" : "no"}`,
+    `Pagination:  ${plan.pagination ? "yes" : "no"}`,
+    `Search:      ${plan.search ? "yes" : "no"}`,
+    `Seeding:     ${plan.seeding ? `yes (batches of ${plan.batchSize})` : "no"}`,
+    `Transaction: ${plan.transaction ? `yes (${plan.writers} writers)` : "no"}`,
+    `Engines:     ${engines.map((e) => ENGINE_LABELS[e]).join(", ")}`,
+    "Variants:",
+    ...plan.adapters.map((a) =>
+      `  - ${a.key} (${a.label}, ${a.suite}${a.target ? `, target ${a.target}` : ""})`
+    ),
+    `Iterations:  ${plan.measure.iterations} (+${plan.measure.warmup} warmup)`,
+    `Seed:        ${plan.seed ?? "random"}`,
+    `Pool size:   ${plan.connect.poolSize ?? "driver default"}`,
+    `Explain:     ${plan.measure.explain ? "capture query plans" : "no"}`,
+    ...(plan.throughput
+      ? [
+        `Throughput:  ${plan.throughput.operation} for ${plan.throughput.durationMs / 1000}s ` +
+        `at ${plan.throughput.concurrency.join(", ")} workers`,
+      ]
+      : []),
+    ...(plan.workload
+      ? [
+        `Workload:    ${plan.workload.preset}, ${plan.workload.operationCount} operations ` +
+        `(${formatMix(plan.workload.spec)})`,
+      ]
+      : []),
+    ...Object.entries(plan.matrix ?? {}).map(([engine, images]) =>
+      `Matrix:      ${ENGINE_LABELS[engine as Engine]} ${images.join(", ")}`
+    ),
+    ...Object.entries(plan.network ?? {}).map(([name, profile]) =>
+      `Network:     ${name} (${formatNetwork(profile)})`
+    ),
+    `Output:      ${plan.output}`,
+    `History:     ${plan.history ?? "not stored"}`,
+    `Docker:      ${
+      !plan.docker
+        ? "use running databases"
+        : plan.reuseContainers ? "reuse or start containers, keep them" : "start containers"
+    }`,
+  ].join("\n");
+}
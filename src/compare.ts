@@ -0,0 +1,133 @@
+import { parseArgs } from 'util';
+import { writeFileSync } from 'fs';
+import Table from 'cli-table3';
+import { UsageError } from './cli';
+import { DEFAULT_HISTORY_DIR, loadRun } from './history';
+import { compareResults, formatChange, formatValue, toJUnitXml } from './regression';
+import type { StoredResults } from './types';
+
+const USAGE = `Usage: bun run src/compare.ts [baseline] [candidate] [options]
+
+Compares two runs per scale, variant and operation. Runs are run ids of the
+history, "latest", "previous" or paths of results files. Defaults to comparing
+the previous run (baseline) with the latest one (candidate).
+
+Options:
+  --threshold <percent> Slowdown that counts as a regression, default 10
+  --junit <path>        Also write the comparison as a JUnit XML report
+  --history <dir>       Directory of the stored runs, default ${DEFAULT_HISTORY_DIR}
+  --all                 List every metric, not only the changed ones
+  -h, --help            Show this message
+
+Exits with code 1 if a regression was found.`;
+
+function parseOptions() {
+  const { values, positionals } = parseArgs({
+    args: process.argv.slice(2),
+    options: {
+      threshold: { type: 'string' },
+      junit: { type: 'string' },
+      history: { type: 'string' },
+      all: { type: 'boolean' },
+      help: { type: 'boolean', short: 'h' }
+    },
+    strict: true,
+    allowPositionals: true
+  });
+
+  if (positionals.length > 2) {
+    throw new UsageError(`Expected at most two runs, got ${positionals.length}`);
+  }
+
+  const threshold = Number(values.threshold ?? 10);
+  if (!Number.isFinite(threshold) || threshold < 0) {
+    throw new UsageError(`--threshold must be a number >= 0, got "${values.threshold}"`);
+  }
+
+  return {
+    baseline: positionals[0] ?? 'previous',
+    candidate: positionals[1] ?? 'latest',
+    threshold,
+    junit: values.junit,
+    history: values.history ?? DEFAULT_HISTORY_DIR,
+    all: values.all ?? false,
+    help: values.help ?? false
+  };
+}
+
+function describe(ref: string, results: StoredResults) {
+  const run = results.run;
+  if (!run) return ref;
+  const commit = run.git ? ` @ ${run.git.commit.slice(0, 8)}${run.git.dirty ? ' (dirty)' : ''}` : '';
+  return `${run.runId}${commit}`;
+}
+
+let options;
+try {
+  options = parseOptions();
+} catch (error) {
+  console.error(`[ERROR] ${(error as Error).message}\n`);
+  console.error(USAGE);
+  process.exit(2);
+}
+
+if (options.help) {
+  console.log(USAGE);
+  process.exit(0);
+}
+
+let baseline: StoredResults;
+let candidate: StoredResults;
+try {
+  baseline = loadRun(options.baseline, options.history);
+  candidate = loadRun(options.candidate, options.history);
+} catch (error) {
+  console.error(`[ERROR] ${(error as Error).message}`);
+  process.exit(2);
+}
+
+console.log(`[INFO] Baseline:  ${describe(options.baseline, baseline)}`);
+console.log(`[INFO] Candidate: ${describe(options.candidate, candidate)}`);
+
+const comparisons = compareResults(baseline, candidate, options.threshold);
+const shown = options.all ? comparisons : comparisons.filter(c => c.status !== 'unchanged');
+
+const table = new Table({
+  head: ['Group', 'Scale', 'Target', 'Operation', 'Baseline', 'Candidate', 'Change', 'Status'],
+  style: {
+    head: ['cyan'],
+    border: ['gray']
+  }
+});
+
+shown.forEach(c => {
+  table.push([
+    c.group,
+    c.scale,
+    c.target,
+    c.operation,
+    formatValue(c.baseline, c.unit),
+    formatValue(c.candidate, c.unit),
+    formatChange(c.change),
+    c.status === 'regression' ? 'REGRESSION' : c.status
+  ]);
+});
+
+if (shown.length > 0) console.log(table.toString());
+
+const count = (status: string) => comparisons.filter(c => c.status === status).length;
+console.log(
+  `[INFO] ${comparisons.length} metrics: ${count('regression')} regressions, ` +
+  `${count('improvement')} improvements, ${count('unchanged')} within ±${options.threshold}%, ` +
+  `${count('missing') + count('new')} only in one run`
+);
+
+if (options.junit) {
+  writeFileSync(options.junit, toJUnitXml(comparisons, options.threshold));
+  console.log(`[INFO] JUnit report written to ${options.junit}`);
+}
+
+if (count('regression') > 0) {
+  console.error(`[ERROR] ${count('regression')} regressions beyond ${options.threshold}%`);
+  process.exitCode = 1;
+}
@@ -0,0 +1,111 @@
+import { describe, expect, test } from "bun:test";
+import { spawnSync } from "child_process";
+import { mkdtempSync, rmSync, writeFileSync } from "fs";
+import os from "os";
+import path from "path";
+import { fitComplexity, fitResults, type ScalePoint } from "./complexity";
+import { summarize } from "./stats";
+import type { StoredResults } from "./types";
+
+const SCALES = [1000, 2000, 4000, 8000, 16000];
+
+const points = (latency: (n: number) => number): ScalePoint[] =>
+  SCALES.map((scale) => ({ scale, latencyMs: latency(scale) }));
+
+describe("fitComplexity", () => {
+  test.each([
+    ["constant", () => 5, 0],
+    ["linear", (n: number) => 0.002 * n, 1],
+    ["nlogn", (n: number) => 0.0001 * n * Math.log2(n), 1.08],
+    ["quadratic", (n: number) => 1e-6 * n * n, 2],
+  ] as const)("recognizes %s growth", (model, latency, exponent) => {
+    const fit = fitComplexity(points(latency), 100_000);
+    expect(fit.model).toBe(model);
+    expect(fit.error).toBeCloseTo(0, 6);
+    expect(fit.exponent).toBeCloseTo(exponent, 1);
+    expect(fit.projectedMs).toBeCloseTo(latency(100_000), 3);
+  });
+
+  test("picks the closest model for noisy data", () => {
+    const noise = [1.05, 0.97, 1.02, 0.98, 1.01];
+    const fit = fitComplexity(
+      SCALES.map((scale, i) => ({ scale, latencyMs: 0.002 * scale * noise[i] })),
+      32000,
+    );
+    expect(fit.model).toBe("linear");
+    expect(fit.error).toBeGreaterThan(0);
+    expect(fit.error).toBeLessThan(0.05);
+  });
+
+  test("leaves latencies of 0ms out of the exponent", () => {
+    const fit = fitComplexity(
+      [{ scale: 100, latencyMs: 0 }, ...points((n) => 0.001 * n)],
+      32000,
+    );
+    expect(Number.isFinite(fit.exponent)).toBe(true);
+    expect(fit.exponent).toBeCloseTo(1, 1);
+  });
+
+  test("has no error and no exponent when every latency is 0ms", () => {
+    const fit = fitComplexity(points(() => 0), 32000);
+    expect(fit.error).toBe(0);
+    expect(fit.exponent).toBe(0);
+    expect(fit.projectedMs).toBe(0);
+  });
+});
+
+const stats = (ms: number) => summarize([ms]);
+
+// Graph suite only, no scaleTests
+const graphTests = Object.fromEntries(
+  [1000, 2000, 4000].map((scale) => [scale, { sqlite: { followCounts: stats(0.001 * scale) } }]),
+);
+
+describe("fitResults", () => {
+  const scaleTests = Object.fromEntries(
+    [1000, 2000, 4000].map((scale) => [
+      scale,
+      { postgresBasic: { simpleRead: stats(0.01 * scale), update: stats(3) } },
+    ]),
+  );
+
+  test("fits every latency series measured at enough scales", () => {
+    const fits = fitResults({ scaleTests } as unknown as StoredResults, 40000);
+    expect(fits.map((fit) => [fit.target, fit.operation, fit.model])).toEqual([
+      ["postgresBasic", "simpleRead", "linear"],
+      ["postgresBasic", "update", "constant"],
+    ]);
+    expect(fits[0].points.map((point) => point.scale)).toEqual([1000, 2000, 4000]);
+    expect(fits[0].projectedMs).toBeCloseTo(400);
+  });
+
+  test("skips series of fewer scales", () => {
+    const { 4000: _, ...twoScales } = scaleTests;
+    expect(fitResults({ scaleTests: twoScales } as unknown as StoredResults, 40000)).toEqual([]);
+  });
+
+  test("fits the engine suites without any scale suite", () => {
+    const fits = fitResults({ graphTests } as unknown as StoredResults, 8000);
+    expect(fits).toHaveLength(1);
+    expect(fits[0]).toMatchObject({ group: "graph", target: "sqlite", model: "linear" });
+  });
+});
+
+describe("fit.ts", () => {
+  test("projects a run of the engine suites only to ten times its largest scale", () => {
+    const dir = mkdtempSync(path.join(os.tmpdir(), "fit-test-"));
+    try {
+      const file = path.join(dir, "results.json");
+      writeFileSync(file, JSON.stringify({ graphTests }));
+      const run = spawnSync(process.execPath, ["run", "src/fit.ts", file], {
+        encoding: "utf8",
+        timeout: 30_000,
+      });
+      expect(run.status).toBe(0);
+      expect(run.stdout).toContain("projected to scale 40000");
+      expect(run.stdout).toContain("40.00ms");
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
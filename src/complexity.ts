@@ -0,0 +1,142 @@
+import Table from "cli-table3";
+import { collectMetrics } from "./regression";
+import type { StoredResults } from "./types";
+
+// Growth of the latency with the number of posts n
+const MODELS = {
+  constant: () => 1,
+  linear: (n: number) => n,
+  nlogn: (n: number) => n * Math.log2(n),
+  quadratic: (n: number) => n * n,
+};
+
+export type ComplexityModel = keyof typeof MODELS;
+
+export const MODEL_LABELS: Record<ComplexityModel, string> = {
+  constant: "O(1)",
+  linear: "O(n)",
+  nlogn: "O(n log n)",
+  quadratic: "O(n²)",
+};
+
+// Fewer scales fit every model about equally well
+export const MIN_FIT_SCALES = 3;
+
+export interface ScalePoint {
+  scale: number;
+  latencyMs: number;  // Median
+}
+
+export interface ComplexityFit {
+  model: ComplexityModel;
+  coefficient: number;  // Latency in ms is coefficient * model(n)
+  error: number;        // Root mean square error of the fit over the mean latency
+  exponent: number;     // Slope of log latency over log scale, 1 is linear
+  projectedMs: number;  // Of the best fit at the target scale
+}
+
+// One latency series of a results file, e.g. mongoWithRelations simpleRead
+export interface SeriesFit extends ComplexityFit {
+  group: string;
+  target: string;
+  operation: string;
+  points: ScalePoint[];
+}
+
+// Least squares slope of y over x
+function slope(xs: number[], ys: number[]): number {
+  const meanX = xs.reduce((sum, x) => sum + x, 0) / xs.length;
+  const meanY = ys.reduce((sum, y) => sum + y, 0) / ys.length;
+  let covariance = 0;
+  let variance = 0;
+  xs.forEach((x, i) => {
+    covariance += (x - meanX) * (ys[i] - meanY);
+    variance += (x - meanX) ** 2;
+  });
+  return variance === 0 ? 0 : covariance / variance;
+}
+
+// Fits latency = c * model(n) to every model by least squares and keeps the
+// one with the smallest relative error, like Google Benchmark's BigO
+export function fitComplexity(points: ScalePoint[], targetScale: number): ComplexityFit {
+  const meanLatency = points.reduce((sum, p) => sum + p.latencyMs, 0) / points.length;
+
+  const fits = (Object.keys(MODELS) as ComplexityModel[]).map((model) => {
+    const growth = points.map((p) => MODELS[model](p.scale));
+    const coefficient = points.reduce((sum, p, i) => sum + p.latencyMs * growth[i], 0) /
+      growth.reduce((sum, g) => sum + g * g, 0);
+    const squares = points.reduce(
+      (sum, p, i) => sum + (p.latencyMs - coefficient * growth[i]) ** 2,
+      0,
+    );
+    const error = meanLatency > 0 ? Math.sqrt(squares / points.length) / meanLatency : 0;
+    return { model, coefficient, error };
+  });
+  const best = fits.reduce((min, fit) => fit.error < min.error ? fit : min);
+
+  // Latencies rounding to 0ms have no logarithm
+  const measured = points.filter((p) => p.latencyMs > 0);
+  const exponent = measured.length < 2 ? 0 : slope(
+    measured.map((p) => Math.log(p.scale)),
+    measured.map((p) => Math.log(p.latencyMs)),
+  );
+
+  return {
+    ...best,
+    exponent,
+    projectedMs: best.coefficient * MODELS[best.model](targetScale),
+  };
+}
+
+// Every latency of the results file measured at MIN_FIT_SCALES or more scales
+export function fitResults(results: StoredResults, targetScale: number): SeriesFit[] {
+  const series = new Map<string, Omit<SeriesFit, keyof ComplexityFit>>();
+  for (const metric of collectMetrics(results)) {
+    if (metric.unit !== "ms") continue;
+
+    const { group, target, operation } = metric;
+    const key = `${group}|${target}|${operation}`;
+    if (!series.has(key)) series.set(key, { group, target, operation, points: [] });
+    series.get(key)!.points.push({ scale: metric.scale, latencyMs: metric.value });
+  }
+
+  return [...series.values()]
+    .filter(({ points }) => points.length >= MIN_FIT_SCALES)
+    .map((s) => {
+      const points = [...s.points].sort((a, b) => a.scale - b.scale);
+      return { ...s, points, ...fitComplexity(points, targetScale) };
+    });
+}
+
+export function formatFits(fits: SeriesFit[], targetScale: number): string {
+  const table = new Table({
+    head: [
+      "Group",
+      "Target",
+      "Operation",
+      "Scales",
+      "Best fit",
+      "Exponent",
+      "Fit error",
+      `Projected (scale ${targetScale})`,
+    ],
+    style: {
+      head: ["cyan"],
+      border: ["gray"],
+    },
+  });
+
+  for (const fit of fits) {
+    table.push([
+      fit.group,
+      fit.target,
+      fit.operation,
+      `${fit.points[0].scale}-${fit.points[fit.points.length - 1].scale}`,
+      MODEL_LABELS[fit.model],
+      fit.exponent.toFixed(2),
+      `${(fit.error * 100).toFixed(1)}%`,
+      `${fit.projectedMs.toFixed(2)}ms`,
+    ]);
+  }
+  return table.toString();
+}
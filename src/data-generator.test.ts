@@ -0,0 +1,94 @@
+import { describe, expect, test } from "bun:test";
+import {
+  fingerprint,
+  fingerprintStream,
+  generateBasicTestData,
+  generateGraphTestData,
+  generateMongoTestData,
+  generateRelationalTestData,
+  streamTestData,
+} from "./data-generator";
+
+describe("seeded generation", () => {
+  test("the same seed gives the same data", () => {
+    expect(generateRelationalTestData(200, 42)).toEqual(generateRelationalTestData(200, 42));
+    expect(generateGraphTestData(200, 42)).toEqual(generateGraphTestData(200, 42));
+  });
+
+  test("doesn't depend on what was generated before", () => {
+    const first = generateRelationalTestData(200, 7);
+    generateBasicTestData(1000, 7);
+    generateGraphTestData(300, 7);
+    expect(generateRelationalTestData(200, 7)).toEqual(first);
+  });
+
+  test("another seed, scale or dataset gives other data", () => {
+    const data = fingerprint(generateRelationalTestData(200, 1));
+    expect(fingerprint(generateRelationalTestData(200, 2))).not.toBe(data);
+    expect(fingerprint(generateRelationalTestData(300, 1))).not.toBe(data);
+    expect(fingerprint(generateMongoTestData(200, 1))).not.toBe(data);
+  });
+
+  test("sizes the dataset by the scale", () => {
+    const data = generateRelationalTestData(1000, 3);
+    expect(data.posts.length).toBe(1000);
+    expect(data.users.length).toBe(100);
+    expect(data.posts.every((post) => post.user_id >= 1 && post.user_id <= 100)).toBe(true);
+    expect(generateBasicTestData(1000, 3).likes).toEqual([]);
+  });
+
+  test("no user likes a post twice", () => {
+    const { likes } = generateRelationalTestData(2000, 5);
+    const pairs = new Set(likes.map((like) => `${like.post_id}:${like.user_id}`));
+    expect(pairs.size).toBe(likes.length);
+  });
+
+  test("keeps the follower graph free of self and duplicate follows", () => {
+    const { follows } = generateGraphTestData(1000, 9);
+    const pairs = new Set(follows.map((f) => `${f.following_user_id}:${f.followed_user_id}`));
+    expect(pairs.size).toBe(follows.length);
+    expect(follows.some((f) => f.following_user_id === f.followed_user_id)).toBe(false);
+  });
+});
+
+describe("fingerprints", () => {
+  test("are sha256 hex digests", () => {
+    expect(fingerprint(generateBasicTestData(100, 1))).toMatch(/^[0-9a-f]{64}$/);
+  });
+
+  test("change with a single row", () => {
+    const data = generateBasicTestData(100, 1);
+    const before = fingerprint(data);
+    data.posts[50] = { ...data.posts[50], title: "changed" };
+    expect(fingerprint(data)).not.toBe(before);
+  });
+
+  test("of a stream match those of the collected data", () => {
+    const stream = fingerprintStream(streamTestData("relational", 1000, 11, 64));
+    expect(stream.digest()).toBeUndefined();
+    for (const batch of stream.batches()) expect(batch.rows.length).toBeLessThan(64 + 11);
+    expect(stream.digest()).toBe(fingerprint(generateRelationalTestData(1000, 11)));
+  });
+
+  test("don't depend on the batch size", () => {
+    const digest = (batchSize: number) => {
+      const stream = fingerprintStream(streamTestData("indexed", 500, 3, batchSize));
+      for (const _ of stream.batches());
+      return stream.digest();
+    };
+    expect(digest(7)).toBe(digest(5000));
+  });
+});
+
+describe("streamTestData", () => {
+  test("yields the users, then the posts, then the likes", () => {
+    const tables = [...streamTestData("relational", 1000, 1, 100)].map((batch) => batch.table);
+    const order = tables.filter((table, i) => table !== tables[i - 1]);
+    expect(order).toEqual(["users", "posts", "likes"]);
+  });
+
+  test("has no likes for the basic dataset", () => {
+    const tables = new Set([...streamTestData("basic", 200, 1)].map((batch) => batch.table));
+    expect([...tables]).toEqual(["users", "posts"]);
+  });
+});
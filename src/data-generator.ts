@@ -0,0 +1,249 @@
+import { faker } from "@faker-js/faker";
+import { createHash, type Hash } from "crypto";
+import type {
+  DataBatch,
+  FollowRecord,
+  LikeRecord,
+  PostRecord,
+  Scale,
+  TestData,
+  UserRecord,
+} from "./types";
+
+// Mean number of users a user follows
+const AVG_FOLLOWING = 20;
+
+// Weight of the user at popularity rank r is 1 / (r + 1)^POPULARITY_EXPONENT
+const POPULARITY_EXPONENT = 1.1;
+
+// faker.date.past() is relative to now unless a reference date is set
+const SEEDED_REF_DATE = new Date("2024-11-01T00:00:00.000Z");
+
+// Seeds per generator and scale, so a dataset doesn't depend on which other
+// suites or scales were generated before it
+export function seedFaker(seed: number | undefined, generator: number, scale: Scale) {
+  if (seed === undefined) return;
+
+  faker.seed([seed, generator, scale]);
+  faker.setDefaultRefDate(SEEDED_REF_DATE);
+}
+
+// Rows per streamed batch, the memory of a streamed dataset is bounded by it
+export const DEFAULT_BATCH_SIZE = 5000;
+
+// Mean number of likes per post
+const LIKES_PER_POST = 5;
+
+function hashRows(hash: Hash, table: string, rows: object[]) {
+  for (const row of rows) hash.update(`${table}:${JSON.stringify(row)}\n`);
+}
+
+// Content hash of a dataset, equal hashes mean identical benchmark inputs.
+// Hashed row by row, so a streamed dataset hashes the same.
+export function fingerprint(data: TestData): string {
+  const hash = createHash("sha256");
+  for (const table of ["users", "posts", "likes", "follows"] as const) {
+    hashRows(hash, table, data[table]);
+  }
+  return hash.digest("hex");
+}
+
+// Fingerprint of the batches passing through, once the stream is consumed
+export function fingerprintStream(batches: Iterable<DataBatch>) {
+  const hash = createHash("sha256");
+  let digest: string | undefined;
+
+  return {
+    *batches() {
+      for (const batch of batches) {
+        hashRows(hash, batch.table, batch.rows);
+        yield batch;
+      }
+      digest = hash.digest("hex");
+    },
+    digest: () => digest,
+  };
+}
+
+const userCount = (scale: Scale) => Math.floor(scale / 10);
+
+// The id keeps the usernames unique without remembering the ones generated
+function generateUser(id: number): UserRecord {
+  return {
+    id,
+    username: `${faker.internet.username()}_${id.toString(36)}`,
+    role: faker.helpers.arrayElement(["user", "moderator"]),
+    created_at: faker.date.past(),
+  };
+}
+
+function generateUsers(scale: Scale): UserRecord[] {
+  return Array.from({ length: userCount(scale) }, (_, i) => generateUser(i + 1));
+}
+
+export const POST_STATUSES = ["active", "draft", "archived"];
+
+// Users have the ids 1 to userCount
+export function generatePost(id: number, userCount: number): PostRecord {
+  return {
+    id,
+    title: faker.lorem.sentence(),
+    body: faker.lorem.paragraphs(),
+    status: faker.helpers.arrayElement(POST_STATUSES),
+    created_at: faker.date.past(),
+    user_id: faker.number.int({ min: 1, max: userCount }),
+  };
+}
+
+// k distinct ids out of 1 to n with one draw each (Floyd's algorithm)
+function sampleDistinct(k: number, n: number): number[] {
+  const picked = new Set<number>();
+  for (let j = n - k + 1; j <= n; j++) {
+    const id = faker.number.int({ min: 1, max: j });
+    picked.add(picked.has(id) ? j : id);
+  }
+  return [...picked];
+}
+
+// Likes of one post, no user likes a post twice
+function generateLikes(postId: number, userCount: number): LikeRecord[] {
+  const count = Math.min(userCount, faker.number.int({ min: 0, max: 2 * LIKES_PER_POST }));
+  return sampleDistinct(count, userCount).map((user_id) => ({
+    post_id: postId,
+    user_id,
+    created_at: faker.date.past(),
+  }));
+}
+
+function* inBatches<T>(count: number, batchSize: number, generate: (i: number) => T[]) {
+  let batch: T[] = [];
+  for (let i = 0; i < count; i++) {
+    batch.push(...generate(i));
+    if (batch.length >= batchSize) {
+      yield batch;
+      batch = [];
+    }
+  }
+  if (batch.length > 0) yield batch;
+}
+
+// The suites' datasets and the generator number their seed is derived from
+const STREAMED_DATASETS = { basic: 1, relational: 2, indexed: 3 } as const;
+
+export type StreamedDataset = keyof typeof STREAMED_DATASETS;
+
+// Generates the users, then the posts, then the likes of a dataset, at most
+// about batchSize rows at a time. The batches are generated as they are
+// consumed and share faker's state, nothing else may use faker in between.
+export function* streamTestData(
+  dataset: StreamedDataset,
+  scale: Scale,
+  seed?: number,
+  batchSize = DEFAULT_BATCH_SIZE,
+): Generator<DataBatch> {
+  seedFaker(seed, STREAMED_DATASETS[dataset], scale);
+  const users = userCount(scale);
+
+  for (const rows of inBatches(users, batchSize, (i) => [generateUser(i + 1)])) {
+    yield { table: "users", rows };
+  }
+  for (const rows of inBatches(scale, batchSize, (i) => [generatePost(i + 1, users)])) {
+    yield { table: "posts", rows };
+  }
+  if (dataset === "basic") return;
+  for (const rows of inBatches(scale, batchSize, (i) => generateLikes(i + 1, users))) {
+    yield { table: "likes", rows };
+  }
+}
+
+function collect(batches: Iterable<DataBatch>): TestData {
+  const data: TestData = { users: [], posts: [], likes: [], follows: [] };
+  for (const batch of batches) {
+    // Element by element, a spread of a large batch would overflow the stack
+    for (const row of batch.rows) (data[batch.table] as object[]).push(row);
+  }
+  return data;
+}
+
+export function generateBasicTestData(scale: Scale, seed?: number): TestData {
+  return collect(streamTestData("basic", scale, seed));
+}
+
+export function generateRelationalTestData(scale: Scale, seed?: number): TestData {
+  return collect(streamTestData("relational", scale, seed));
+}
+
+// Same shape as the relational data, for the indexed suite
+export function generateMongoTestData(scale: Scale, seed?: number): TestData {
+  return collect(streamTestData("indexed", scale, seed));
+}
+
+function generateFollows(users: UserRecord[]): FollowRecord[] {
+  const n = users.length;
+
+  // A few users attract most of the followers (preferential attachment)
+  const cumulative: number[] = [];
+  let total = 0;
+  users.forEach((_, rank) => {
+    total += 1 / (rank + 1) ** POPULARITY_EXPONENT;
+    cumulative.push(total);
+  });
+
+  const pickPopular = () => {
+    const r = faker.number.float({ max: total });
+    let lo = 0;
+    let hi = n - 1;
+    while (lo < hi) {
+      const mid = (lo + hi) >> 1;
+      if (cumulative[mid] < r) lo = mid + 1;
+      else hi = mid;
+    }
+    return users[lo].id;
+  };
+
+  const follows: FollowRecord[] = [];
+  for (const user of users) {
+    // Pareto distributed out-degree (shape 2) with a mean of AVG_FOLLOWING
+    const u = faker.number.float();
+    const degree = Math.min(
+      n - 1,
+      Math.floor(AVG_FOLLOWING / 2 / Math.sqrt(1 - u)),
+    );
+
+    let targets: number[];
+    if (degree > n / 4) {
+      // Dense rows would need too many weighted draws, pick uniformly instead
+      targets = faker.helpers.arrayElements(
+        users.filter((other) => other.id !== user.id),
+        degree,
+      ).map((other) => other.id);
+    } else {
+      const picked = new Set<number>();
+      while (picked.size < degree) {
+        const target = pickPopular();
+        if (target !== user.id) picked.add(target);
+      }
+      targets = [...picked];
+    }
+
+    for (const target of targets) {
+      follows.push({
+        following_user_id: user.id,
+        followed_user_id: target,
+        created_at: faker.date.past(),
+      });
+    }
+  }
+
+  return follows;
+}
+
+// Users and posts like the basic data plus a follower graph, for the graph suite
+export function generateGraphTestData(scale: Scale, seed?: number): TestData {
+  seedFaker(seed, 4, scale);
+  const users = generateUsers(scale);
+  const posts = Array.from({ length: scale }, (_, i) => generatePost(i + 1, users.length));
+  const follows = generateFollows(users);
+
+  return { users, posts, likes: [], follows };
+}
@@ -0,0 +1,88 @@
+import { parseArgs } from 'util';
+import { UsageError } from './cli';
+import { fitResults, formatFits, MIN_FIT_SCALES } from './complexity';
+import { DEFAULT_HISTORY_DIR, loadRun } from './history';
+import { collectMetrics } from './regression';
+import type { StoredResults } from './types';
+
+const USAGE = `Usage: bun run src/fit.ts [run] [options]
+
+Fits the median latency of every variant and operation over the scales of a
+run to O(1), O(n), O(n log n) and O(n²), and projects the best fit to a larger
+scale. The run is a run id of the history, "latest", "previous" or the path of
+a results file, default latest. Needs a run of at least ${MIN_FIT_SCALES} scales.
+
+Options:
+  --target <scale>      Scale to project to, default 10 times the largest scale
+  --group <list>        Only these groups, e.g. operations,graph
+  --history <dir>       Directory of the stored runs, default ${DEFAULT_HISTORY_DIR}
+  -h, --help            Show this message`;
+
+function parseOptions() {
+  const { values, positionals } = parseArgs({
+    args: process.argv.slice(2),
+    options: {
+      target: { type: 'string' },
+      group: { type: 'string' },
+      history: { type: 'string' },
+      help: { type: 'boolean', short: 'h' }
+    },
+    strict: true,
+    allowPositionals: true
+  });
+
+  if (positionals.length > 1) {
+    throw new UsageError(`Expected at most one run, got ${positionals.length}`);
+  }
+
+  const target = values.target === undefined ? undefined : Number(values.target);
+  if (target !== undefined && (!Number.isInteger(target) || target < 1)) {
+    throw new UsageError(`--target must be an integer >= 1, got "${values.target}"`);
+  }
+
+  return {
+    run: positionals[0] ?? 'latest',
+    target,
+    groups: values.group?.split(',').map(group => group.trim()),
+    history: values.history ?? DEFAULT_HISTORY_DIR,
+    help: values.help ?? false
+  };
+}
+
+let options;
+try {
+  options = parseOptions();
+} catch (error) {
+  console.error(`[ERROR] ${(error as Error).message}\n`);
+  console.error(USAGE);
+  process.exit(2);
+}
+
+if (options.help) {
+  console.log(USAGE);
+  process.exit(0);
+}
+
+let results: StoredResults;
+try {
+  results = loadRun(options.run, options.history);
+} catch (error) {
+  console.error(`[ERROR] ${(error as Error).message}`);
+  process.exit(2);
+}
+
+// The scales of every latency, the engine suites run at scales of their own
+const scales = collectMetrics(results)
+  .filter(metric => metric.unit === 'ms')
+  .map(metric => metric.scale);
+const targetScale = options.target ?? Math.max(0, ...scales) * 10;
+const fits = fitResults(results, targetScale)
+  .filter(fit => !options.groups || options.groups.includes(fit.group));
+
+if (fits.length === 0) {
+  console.error(`[ERROR] ${options.run} has no operation measured at ${MIN_FIT_SCALES} or more scales`);
+  process.exit(1);
+}
+
+console.log(`[INFO] ${fits.length} latencies of ${results.run?.runId ?? options.run}, projected to scale ${targetScale}`);
+console.log(formatFits(fits, targetScale));
@@ -0,0 +1,117 @@
+import { spawnSync } from "child_process";
+import { existsSync, mkdirSync, readdirSync, readFileSync, writeFileSync } from "fs";
+import { createRequire } from "module";
+import os from "os";
+import path from "path";
+import type { RunMetadata, StoredResults } from "./types";
+
+export const DEFAULT_HISTORY_DIR = "runs";
+
+// Drivers whose upgrades we want to be able to tell apart in the history
+const TRACKED_PACKAGES = ["@prisma/client", "prisma", "mongodb"];
+
+// ISO timestamp usable as a file name, sorts chronologically
+export function createRunId(date: Date): string {
+  return date.toISOString().replace(/[:.]/g, "-");
+}
+
+// Marks the runs through an emulated network, their latencies include the
+// profile's and are only comparable to runs of the same profile
+const NETWORK_RUN_MARKER = "-network-";
+
+export function networkRunId(runId: string, profile: string): string {
+  return `${runId}${NETWORK_RUN_MARKER}${profile}`;
+}
+
+function gitState(): RunMetadata["git"] {
+  const head = spawnSync("git", ["rev-parse", "HEAD"], { encoding: "utf8" });
+  if (head.status !== 0) return null;
+
+  const status = spawnSync("git", ["status", "--porcelain"], { encoding: "utf8" });
+  return {
+    commit: head.stdout.trim(),
+    dirty: status.stdout.trim().length > 0,
+  };
+}
+
+function packageVersions(): Record<string, string> {
+  const require = createRequire(import.meta.url);
+  const versions: Record<string, string> = {};
+  for (const name of TRACKED_PACKAGES) {
+    try {
+      versions[name] = require(`${name}/package.json`).version;
+    } catch {
+      // Not installed
+    }
+  }
+  return versions;
+}
+
+export function collectMetadata(
+  runId: string,
+  startedAt: Date,
+  argv: string[],
+): RunMetadata {
+  return {
+    runId,
+    startedAt: startedAt.toISOString(),
+    finishedAt: new Date().toISOString(),
+    argv,
+    git: gitState(),
+    runtime: {
+      bun: process.versions.bun ?? "unknown",
+      platform: os.platform(),
+      arch: os.arch(),
+      cpus: `${os.cpus().length}x ${os.cpus()[0]?.model ?? "unknown"}`,
+      memoryBytes: os.totalmem(),
+    },
+    packages: packageVersions(),
+  };
+}
+
+// Stores the results as <dir>/<runId>.json and returns the path
+export function saveRun(dir: string, runId: string, results: StoredResults): string {
+  mkdirSync(dir, { recursive: true });
+  const file = path.join(dir, `${runId}.json`);
+  writeFileSync(file, JSON.stringify(results, null, 2));
+  return file;
+}
+
+// Run ids in chronological order
+export function listRuns(dir: string): string[] {
+  if (!existsSync(dir)) return [];
+
+  return readdirSync(dir)
+    .filter((file) => file.endsWith(".json"))
+    .map((file) => file.slice(0, -".json".length))
+    .sort();
+}
+
+// Accepts a run id of the history, "latest", "previous" or the path of a results
+// file. The aliases skip the network profile runs, those need their run id.
+export function loadRun(ref: string, dir: string): StoredResults {
+  const runs = listRuns(dir);
+  const direct = runs.filter((run) => !run.includes(NETWORK_RUN_MARKER));
+  const aliases: Record<string, string | undefined> = {
+    latest: direct.at(-1),
+    previous: direct.at(-2),
+  };
+
+  let file: string;
+  if (ref in aliases) {
+    if (!aliases[ref]) {
+      throw new Error(
+        `No ${ref} run in ${dir}, ${direct.length} runs stored besides network profile runs`,
+      );
+    }
+    file = path.join(dir, `${aliases[ref]}.json`);
+  } else if (runs.includes(ref)) {
+    file = path.join(dir, `${ref}.json`);
+  } else if (existsSync(ref)) {
+    file = ref;
+  } else {
+    throw new Error(`Unknown run "${ref}", neither a run id in ${dir} nor a results file`);
+  }
+
+  return JSON.parse(readFileSync(file, "utf8"));
+}
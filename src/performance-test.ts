@@ -1,90 +1,402 @@
-import { PrismaClient } from "@prisma/client";
-import { MongoClient, ObjectId } from "mongodb";
 import { performance } from "perf_hooks";
-import { faker } from "@faker-js/faker";
-import type { AggregationResults, Scale, TestResults } from "./types";
+import type {
+  AggregationOperation,
+  AggregationOperationResults,
+  AggregationResults,
+  ConnectOptions,
+  DatasetFingerprints,
+  DatasetName,
+  GraphOperation,
+  GraphOperationResults,
+  GraphResults,
+  IndexResult,
+  IndexResults,
+  LatencyStats,
+  MaintenanceOperation,
+  MaintenanceOperationResults,
+  MaintenanceResults,
+  MeasureOptions,
+  Operation,
+  OperationOutcome,
+  OperationResults,
+  PaginationOperation,
+  PaginationOperationResults,
+  PaginationResults,
+  QueryPlans,
+  ResourceResults,
+  Scale,
+  SearchOperation,
+  SearchOperationResults,
+  SearchQuery,
+  SearchResults,
+  SeedingResults,
+  SeedingTable,
+  SeedingTableResult,
+  StorageResults,
+  StorageSize,
+  Suite,
+  TestData,
+  TestResults,
+  ThroughputOperation,
+  ThroughputResults,
+  TransactionOperation,
+  TransactionResult,
+  TransactionResults,
+  Verification,
+  WorkloadResults,
+  WorkloadSpec,
+} from "./types";
+import {
+  FEED_PAGE_SIZE,
+  supportsBulkLoad,
+  supportsExplain,
+  supportsGraph,
+  supportsIndexes,
+  supportsMaintenance,
+  supportsPagination,
+  supportsSearch,
+  supportsStorage,
+  supportsTransactions,
+  supportsWorkload,
+  type DatabaseAdapter,
+  type FeedCursor,
+  type IndexAdapter,
+  type MaintenanceAdapter,
+  type StorageAdapter,
+  UNINDEXED_SEARCH_METHODS,
+} from "./adapters";
+import {
+  fingerprint,
+  fingerprintStream,
+  generateBasicTestData,
+  generateGraphTestData,
+  generateMongoTestData,
+  generateRelationalTestData,
+  streamTestData,
+} from "./data-generator";
+import { containerStats } from "./docker";
+import { ResourceMonitor } from "./resources";
+import { SEARCH_OPERATIONS, searchQueries } from "./search";
+import { formatBytes, formatStats, summarize } from "./stats";
+import { runThroughput } from "./throughput";
+import {
+  CONTENTION_ROUNDS,
+  runContention,
+  TRANSACTION_OPERATIONS,
+  unlikedPairs,
+} from "./transactions";
+import {
+  describeMismatch,
+  fingerprintOutcome,
+  verifyOutcomes,
+  type OutcomeFingerprints,
+} from "./verification";
+import { generateWorkload, runWorkload } from "./workload";
 import Table from "cli-table3";
 
-interface TestData {
-  basic: {
-    users: any[];
-    posts: any[];
-  };
-  relational: {
-    users: any[];
-    posts: any[];
-    likes: any[];
-  };
-}
+// Execution order of every test set, later operations see the data left by earlier ones
+export const OPERATIONS: Operation[] = [
+  "writes",
+  "simpleRead",
+  "filteredRead",
+  "projectedRead",
+  "sortedRead",
+  "update",
+  "delete",
+];
+
+export const AGGREGATION_OPERATIONS: AggregationOperation[] = [
+  "postsPerUser",
+  "avgLikesPerPost",
+  "mostActiveUsers",
+  "mostLikedPosts",
+  "userEngagement",
+];
+
+export const GRAPH_OPERATIONS: GraphOperation[] = [
+  "followWrites",
+  "followCounts",
+  "mutualFollows",
+  "friendsOfFriends",
+  "homeTimeline",
+];
+
+export const PAGINATION_OPERATIONS: PaginationOperation[] = [
+  "offsetFirst",
+  "offsetMiddle",
+  "offsetLast",
+  "keysetFirst",
+  "keysetMiddle",
+  "keysetLast",
+];
+
+// In the order they are loaded, likes reference posts and users
+export const SEEDING_TABLES: SeedingTable[] = ["users", "posts", "likes"];
+
+// Operations that change the data and therefore need a reset between iterations
+const DESTRUCTIVE_OPERATIONS = new Set<Operation>(["writes", "update", "delete"]);
+
+export const MAINTENANCE_OPERATIONS: MaintenanceOperation[] = [
+  "renameUser",
+  "addLike",
+  "removeLike",
+];
+
+export const THROUGHPUT_OPERATIONS: ThroughputOperation[] = [
+  ...OPERATIONS.filter((op) => !DESTRUCTIVE_OPERATIONS.has(op)) as ThroughputOperation[],
+  ...AGGREGATION_OPERATIONS,
+];
+
+// Every suite gets freshly generated data, shared by all its adapters
+const SUITE_DATA: Record<Suite, (scale: Scale, seed?: number) => TestData> = {
+  basic: generateBasicTestData,
+  relational: generateRelationalTestData,
+  indexed: generateMongoTestData,
+};
+
+export const SUITES = Object.keys(SUITE_DATA) as Suite[];
 
 export class PerformanceTest {
-  private prisma: PrismaClient;
-  private mongo: MongoClient;
-  private mongoCloud: MongoClient;
-  private dbName = "social_network";
-
-  constructor() {
-    this.prisma = new PrismaClient();
-    this.mongo = new MongoClient(
-      process.env.MONGODB_URL || "mongodb://localhost:27017",
-    );
-    this.mongoCloud = new MongoClient(process.env.MONGODB_CLOUD_URL!);
+  private adapters: DatabaseAdapter[];
+  private options: MeasureOptions;
+  private seed?: number;
+  readonly datasets: DatasetFingerprints = {};
+  readonly queryPlans: QueryPlans = {};
+  readonly indexes: Record<number, IndexResults> = {};
+  readonly maintenance: Record<number, MaintenanceResults> = {};
+  readonly resources: Record<number, ResourceResults> = {};
+  readonly storage: Record<number, StorageResults> = {};
+  readonly searchQueries: Record<number, Record<SearchOperation, SearchQuery>> = {};
+  readonly verification: Record<number, Verification> = {};
+
+  constructor(
+    adapters: DatabaseAdapter[],
+    options: MeasureOptions = { warmup: 1, iterations: 5 },
+    seed?: number,
+  ) {
+    this.adapters = adapters;
+    this.options = options;
+    this.seed = seed;
+  }
+
+  private generate(
+    name: DatasetName,
+    scale: Scale,
+    generator: (scale: Scale, seed?: number) => TestData,
+  ): TestData {
+    const data = generator(scale, this.seed);
+    this.datasets[scale] = { ...this.datasets[scale], [name]: fingerprint(data) };
+    return data;
   }
 
-  async connect() {
-    await this.prisma.$connect();
-    await this.mongo.connect();
-    await this.mongoCloud.connect();
-    await this.setupMongoIndexes();
+  // Column labels keyed like TestResults
+  get variants(): Record<string, string> {
+    return Object.fromEntries(this.adapters.map((a) => [a.key, a.label]));
+  }
+
+  // A target that can't be reached is left out of the run, the local
+  // databases have to be there
+  async connect(options: ConnectOptions = {}) {
+    for (const adapter of [...this.adapters]) {
+      try {
+        await adapter.connect(options);
+      } catch (error) {
+        if (!adapter.target) throw error;
+
+        console.warn(
+          `[WARN] Skipping ${adapter.label}, target ${adapter.target} is unreachable: ${(error as Error).message}`,
+        );
+        await adapter.disconnect().catch(() => {});
+        this.adapters = this.adapters.filter((a) => a !== adapter);
+      }
+    }
   }
 
   async disconnect() {
-    await this.prisma.$disconnect();
-    await this.mongo.close();
-    await this.mongoCloud.close();
+    for (const adapter of this.adapters) {
+      await adapter.disconnect();
+    }
   }
 
-  private async setupMongoIndexes() {
-    const db = this.mongo.db(this.dbName);
+  private async measure(
+    name: string,
+    fn: () => Promise<unknown>,
+    reset?: () => Promise<void>,
+    monitor?: ResourceMonitor,
+  ): Promise<LatencyStats> {
+    const { warmup, iterations } = this.options;
+    const samples: number[] = [];
+
+    for (let run = 0; run < warmup + iterations; run++) {
+      // The first run sees the data as prepared by the caller
+      if (run > 0 && reset) await reset();
+
+      const start = performance.now();
+      await fn();
+      const end = performance.now();
+
+      if (run >= warmup) samples.push(end - start);
+    }
 
-    // Users collection indexes
-    await db.collection("users").createIndex({ username: 1 }, { unique: true });
-    await db.collection("users").createIndex({ created_at: 1 });
+    // One more run for the container resources, kept out of the latencies
+    if (monitor) {
+      if (reset) await reset();
+      if (await monitor.before()) {
+        try {
+          await fn();
+        } finally {
+          // Stops the memory poller even if the run failed
+          await monitor.after();
+        }
+      }
+    }
 
-    // Posts collection indexes
-    await db.collection("posts").createIndex({ user_id: 1 });
-    await db.collection("posts").createIndex({ status: 1 });
-    await db.collection("posts").createIndex({ created_at: 1 });
-    await db.collection("posts").createIndex({ status: 1, created_at: -1 });
+    const stats = summarize(samples);
+    console.log(`[DEBUG] ${name}: ${formatStats(stats)}`);
+    return stats;
+  }
 
-    // Likes collection indexes
-    await db.collection("likes").createIndex({ post_id: 1, user_id: 1 }, {
-      unique: true,
-    });
-    await db.collection("likes").createIndex({ post_id: 1 });
-    await db.collection("likes").createIndex({ user_id: 1 });
+  // With --explain, captures the plans of an operation on the data its first
+  // measured run sees. restore undoes the changes of a destructive operation.
+  private async explain(
+    scale: Scale,
+    adapter: DatabaseAdapter,
+    op: string,
+    fn: () => Promise<unknown>,
+    restore: () => Promise<void> = async () => {},
+  ) {
+    if (!this.options.explain || !supportsExplain(adapter)) return;
+
+    const plans = await adapter.explain(fn, restore);
+    this.queryPlans[scale] ??= {};
+    this.queryPlans[scale][adapter.key] ??= {};
+    this.queryPlans[scale][adapter.key][op] = plans;
   }
 
-  private async measure(
-    name: string,
-    fn: () => Promise<void>,
-  ): Promise<number> {
-    const start = performance.now();
-    await fn();
-    const end = performance.now();
-    return end - start;
+  private recordResources(scale: Scale, adapter: DatabaseAdapter, op: Operation, monitor: ResourceMonitor) {
+    const usage = monitor.result();
+    if (!usage) return;
+
+    this.resources[scale] ??= {};
+    this.resources[scale][adapter.key] ??= {};
+    this.resources[scale][adapter.key][op] = usage;
+  }
+
+  // Fills outcomes with what the first run of every operation returned
+  private async runOperations(
+    scale: Scale,
+    adapter: DatabaseAdapter,
+    data: TestData,
+    outcomes: OutcomeFingerprints,
+  ): Promise<OperationResults> {
+    const results = {} as OperationResults;
+    const applied: Operation[] = [];
+
+    for (const op of OPERATIONS) {
+      let outcome: OperationOutcome | undefined;
+      const fn = async () => {
+        const result = await adapter[op]();
+        outcome ??= result;
+      };
+      const engine = adapter.engine;
+      // Neither SQLite nor a target runs in a container of this run
+      const monitor = new ResourceMonitor(async () =>
+        engine === "sqlite" || adapter.target ? null : containerStats(engine)
+      );
+
+      if (!DESTRUCTIVE_OPERATIONS.has(op)) {
+        await this.explain(scale, adapter, op, fn);
+        results[op] = await this.measure(`${adapter.label} ${op}`, fn, undefined, monitor);
+        outcomes[op] = fingerprintOutcome(op, outcome!);
+        this.recordResources(scale, adapter, op, monitor);
+        continue;
+      }
+
+      // Restore the seeded data and replay earlier destructive operations
+      const replay = [...applied];
+      const reset = async () => {
+        await adapter.cleanup();
+        await adapter.seed(data);
+        for (const prior of replay) await adapter[prior]();
+      };
+      await this.explain(scale, adapter, op, fn, reset);
+      results[op] = await this.measure(`${adapter.label} ${op}`, fn, reset, monitor);
+      outcomes[op] = fingerprintOutcome(op, outcome!);
+      this.recordResources(scale, adapter, op, monitor);
+      applied.push(op);
+    }
+
+    return results;
+  }
+
+  // Builds the secondary indexes on the written data, dropping them between
+  // iterations, and reports the size they take up afterwards
+  private async measureIndexes(
+    adapter: DatabaseAdapter & IndexAdapter,
+    data: TestData,
+  ): Promise<IndexResult> {
+    await adapter.seed(data);
+    await adapter.writes();
+    await adapter.dropIndexes();
+
+    const build = await this.measure(
+      `${adapter.label} index build`,
+      () => adapter.createIndexes(),
+      () => adapter.dropIndexes(),
+    );
+    return { build, sizeBytes: await adapter.indexSize() };
+  }
+
+  // Sizes of the tables or collections once the suite's data is written
+  private async measureStorage(adapter: DatabaseAdapter & StorageAdapter, data: TestData) {
+    await adapter.seed(data);
+    await adapter.writes();
+    return adapter.storageSize();
+  }
+
+  // Renames the author of the most posts, adds a like and removes one on the
+  // written data. Every iteration undoes the change of the previous one.
+  private async measureMaintenance(
+    adapter: DatabaseAdapter & MaintenanceAdapter,
+    data: TestData,
+  ): Promise<MaintenanceOperationResults> {
+    await adapter.seed(data);
+    await adapter.writes();
+
+    const posts = new Map<number, number>();
+    for (const post of data.posts) {
+      posts.set(post.user_id, (posts.get(post.user_id) ?? 0) + 1);
+    }
+    const [author] = [...posts].reduce((max, entry) => entry[1] > max[1] ? entry : max);
+    const { username } = data.users.find((user) => user.id === author)!;
+    const [[postId, userId]] = unlikedPairs(data, 1);
+    const [like] = data.likes;
+
+    return {
+      renameUser: await this.measure(
+        `${adapter.label} renameUser`,
+        () => adapter.renameUser(author, `${username}_renamed`),
+        () => adapter.renameUser(author, username),
+      ),
+      addLike: await this.measure(
+        `${adapter.label} addLike`,
+        () => adapter.addLike(postId, userId),
+        () => adapter.removeLike(postId, userId),
+      ),
+      removeLike: await this.measure(
+        `${adapter.label} removeLike`,
+        () => adapter.removeLike(like.post_id, like.user_id),
+        () => adapter.addLike(like.post_id, like.user_id),
+      ),
+    };
   }
 
   private formatResults(scale: Scale, results: TestResults) {
+    const keys = Object.keys(this.variants).filter((key) => key in results);
     const table = new Table({
       head: [
-        "Operation",
-        "Postgres Basic",
-        "Postgres Relations",
-        "Mongo Basic",
-        "Mongo Relations",
-        "Mongo Indexed",
-        "Mongo Atlas Basic",
+        "Operation (median ± std dev)",
+        ...keys.map((key) => this.variants[key]),
       ],
       style: {
         head: ["cyan"],
@@ -92,1013 +404,602 @@ export class PerformanceTest {
       },
     });
 
-    const operations = Object.keys(results.postgresBasic);
-    operations.forEach((op) => {
+    const checks = this.verification[scale] ?? {};
+    OPERATIONS.forEach((op) => {
       table.push([
         op,
-        `${(results as any).postgresBasic[op].toFixed(2)}ms`,
-        `${(results as any).postgresWithRelations[op].toFixed(2)}ms`,
-        `${(results as any).mongoBasic[op].toFixed(2)}ms`,
-        `${(results as any).mongoWithRelations[op].toFixed(2)}ms`,
-        `${(results as any).mongoWithIndexes[op].toFixed(2)}ms`,
-        `${(results as any).mongoAtlas[op].toFixed(2)}ms`,
+        ...keys.map((key) =>
+          formatStats(results[key][op]) +
+          (checks[key]?.[op]?.matches === false ? " (mismatch)" : "")
+        ),
       ]);
     });
 
+    const indexes = this.indexes[scale];
+    if (keys.some((key) => indexes?.[key])) {
+      table.push([
+        "index build",
+        ...keys.map((key) => indexes[key] ? formatStats(indexes[key].build) : "-"),
+      ]);
+      table.push([
+        "index size",
+        ...keys.map((key) => indexes[key] ? formatBytes(indexes[key].sizeBytes) : "-"),
+      ]);
+    }
+
+    const maintenance = this.maintenance[scale];
+    if (keys.some((key) => maintenance?.[key])) {
+      MAINTENANCE_OPERATIONS.forEach((op) => {
+        table.push([
+          op,
+          ...keys.map((key) => maintenance[key] ? formatStats(maintenance[key][op]) : "-"),
+        ]);
+      });
+    }
+
     console.log(`\nResults for scale: ${scale}`);
     console.log(table.toString());
+    this.formatOverhead(keys, results);
+    this.formatStorage(scale, keys);
+    this.formatResources(scale, keys);
+
+    for (const key of keys) {
+      for (const op of OPERATIONS) {
+        const check = checks[key]?.[op];
+        if (!check || check.matches) continue;
+        const expected = checks[check.reference][op]!;
+        console.log(`[ERROR] ${this.variants[key]}: ${describeMismatch(op, check, expected)}`);
+      }
+    }
   }
 
-  private async generateBasicTestData(
-    scale: Scale,
-  ): Promise<TestData["basic"]> {
-    const usernameSet = new Set<string>();
-    while (usernameSet.size < Math.floor(scale / 10)) {
-      const username = `${faker.internet.username()}_${faker.string.nanoid(6)}`;
-      usernameSet.add(username);
-    }
+  // What the ORM variant takes longer than its plain SQL mirror, per operation
+  private formatOverhead(keys: string[], results: TestResults) {
+    const mirrors = this.adapters.filter((a) =>
+      a.mirrors && keys.includes(a.key) && keys.includes(a.mirrors)
+    );
+    if (mirrors.length === 0) return;
 
-    const users = Array.from(usernameSet).map((username) => ({
-      username,
-      role: faker.helpers.arrayElement(["user", "moderator"]),
-      created_at: faker.date.past(),
-    }));
+    const table = new Table({
+      head: [
+        "ORM overhead (median)",
+        ...mirrors.map((a) => `${this.variants[a.mirrors!]} vs ${a.label}`),
+      ],
+      style: {
+        head: ["cyan"],
+        border: ["gray"],
+      },
+    });
 
-    // Create users first to get their IDs for posts
-    await this.prisma.user.createMany({ data: users });
-    const dbUsers = await this.prisma.user.findMany();
+    OPERATIONS.forEach((op) => {
+      table.push([
+        op,
+        ...mirrors.map((a) => {
+          const raw = results[a.key][op].median;
+          const diff = results[a.mirrors!][op].median - raw;
+          const sign = diff >= 0 ? "+" : "";
+          const percent = raw > 0 ? ` (${sign}${((diff / raw) * 100).toFixed(0)}%)` : "";
+          return `${sign}${diff.toFixed(2)}ms${percent}`;
+        }),
+      ]);
+    });
 
-    const posts = Array.from({ length: scale }, () => ({
-      title: faker.lorem.sentence(),
-      body: faker.lorem.paragraphs(),
-      status: faker.helpers.arrayElement(["active", "draft", "archived"]),
-      created_at: faker.date.past(),
-      user_id: faker.helpers.arrayElement(dbUsers).id, // Add user_id reference
-    }));
+    console.log(table.toString());
+  }
 
-    return {
-      users: dbUsers,
-      posts,
-    };
+  // Disk space of every variant, summed over its tables or collections
+  private formatStorage(scale: Scale, keys: string[]) {
+    const storage = this.storage[scale];
+    const sized = keys.filter((key) => storage?.[key]);
+    if (sized.length === 0) return;
+
+    const table = new Table({
+      head: ["Storage", ...sized.map((key) => this.variants[key])],
+      style: {
+        head: ["cyan"],
+        border: ["gray"],
+      },
+    });
+
+    const total = (key: string, size: (s: StorageSize) => number) =>
+      Object.values(storage[key]).reduce((sum, s) => sum + size(s), 0);
+    table.push(["data", ...sized.map((key) => formatBytes(total(key, (s) => s.dataBytes)))]);
+    table.push(["indexes", ...sized.map((key) => formatBytes(total(key, (s) => s.indexBytes)))]);
+    table.push([
+      "total",
+      ...sized.map((key) => formatBytes(total(key, (s) => s.dataBytes + s.indexBytes))),
+    ]);
+
+    console.log(table.toString());
   }
 
-  private async generateRelationalTestData(
-    scale: Scale,
-  ): Promise<TestData["relational"]> {
-    // For Postgres
-    const usernameSet = new Set<string>();
-    while (usernameSet.size < Math.floor(scale / 10)) {
-      const username = `${faker.internet.username()}_${faker.string.nanoid(6)}`;
-      usernameSet.add(username);
-    }
+  // CPU and memory of the database containers, e.g. "35% CPU, 180.2 MB peak"
+  private formatResources(scale: Scale, keys: string[]) {
+    const resources = this.resources[scale];
+    const monitored = keys.filter((key) => resources?.[key]);
+    if (monitored.length === 0) return;
 
-    const users = Array.from(usernameSet).map((username) => ({
-      username,
-      role: faker.helpers.arrayElement(["user", "moderator"]),
-      created_at: faker.date.past(),
-    }));
-
-    // Create users first to get their IDs
-    await this.prisma.user.createMany({ data: users });
-    const dbUsers = await this.prisma.user.findMany();
-
-    const posts = Array.from({ length: scale }, () => ({
-      title: faker.lorem.sentence(),
-      body: faker.lorem.paragraphs(),
-      status: faker.helpers.arrayElement(["active", "draft", "archived"]),
-      created_at: faker.date.past(),
-      user_id: faker.helpers.arrayElement(dbUsers).id,
-    }));
-
-    // Create posts to get their IDs
-    await this.prisma.post.createMany({ data: posts });
-    const dbPosts = await this.prisma.post.findMany();
-
-    // Generate likes (about 5 likes per post on average)
-    const likes = Array.from({ length: Math.floor(scale * 5) }, () => ({
-      post_id: faker.helpers.arrayElement(dbPosts).id,
-      user_id: faker.helpers.arrayElement(dbUsers).id,
-    }));
+    const table = new Table({
+      head: ["Container resources", ...monitored.map((key) => this.variants[key])],
+      style: {
+        head: ["cyan"],
+        border: ["gray"],
+      },
+    });
 
-    return {
-      users: dbUsers,
-      posts: dbPosts,
-      likes,
-    };
+    OPERATIONS.forEach((op) => {
+      table.push([
+        op,
+        ...monitored.map((key) => {
+          const usage = resources[key][op];
+          return usage
+            ? `${usage.cpuPercent.toFixed(0)}% CPU, ${formatBytes(usage.memoryPeakBytes)} peak`
+            : "-";
+        }),
+      ]);
+    });
+
+    console.log(table.toString());
   }
 
-  private async generateMongoTestData(
-    scale: Scale,
-  ): Promise<TestData["relational"]> {
-    const db = this.mongo.db(this.dbName);
-
-    // Generate users
-    const usernameSet = new Set<string>();
-    while (usernameSet.size < Math.floor(scale / 10)) {
-      const username = `${faker.internet.username()}_${faker.string.nanoid(6)}`;
-      usernameSet.add(username);
-    }
+  async runTests(scale: Scale, suites: Suite[] = SUITES): Promise<TestResults> {
+    const results: TestResults = {};
+
+    for (const suite of suites) {
+      const adapters = this.adapters.filter((a) => a.suite === suite);
+      if (adapters.length === 0) continue;
+
+      console.log(`Running ${suite} tests...`);
+      const data = this.generate(suite, scale, SUITE_DATA[suite]);
+      const fingerprints = new Map<string, OutcomeFingerprints>();
+
+      for (const adapter of adapters) {
+        const outcomes: OutcomeFingerprints = {};
+        fingerprints.set(adapter.key, outcomes);
+        await this.cleanup(adapter);
+        await adapter.seed(data);
+        results[adapter.key] = await this.runOperations(scale, adapter, data, outcomes);
+        await this.cleanup(adapter); // Clean between test sets
+
+        if (supportsIndexes(adapter)) {
+          this.indexes[scale] ??= {};
+          this.indexes[scale][adapter.key] = await this.measureIndexes(adapter, data);
+          await this.cleanup(adapter);
+        }
+
+        if (supportsMaintenance(adapter)) {
+          this.maintenance[scale] ??= {};
+          this.maintenance[scale][adapter.key] = await this.measureMaintenance(adapter, data);
+          await this.cleanup(adapter);
+        }
 
-    const users = Array.from(usernameSet).map((username) => ({
-      _id: new ObjectId(),
-      username,
-      role: faker.helpers.arrayElement(["user", "moderator"]),
-      created_at: faker.date.past(),
-    }));
-
-    // Insert users
-    await db.collection("users").insertMany(users);
-
-    // Generate posts
-    const posts = Array.from({ length: scale }, () => ({
-      _id: new ObjectId(),
-      title: faker.lorem.sentence(),
-      body: faker.lorem.paragraphs(),
-      status: faker.helpers.arrayElement(["active", "draft", "archived"]),
-      created_at: faker.date.past(),
-      user_id: faker.helpers.arrayElement(users)._id,
-    }));
-
-    // Insert posts
-    await db.collection("posts").insertMany(posts);
-
-    // Generate unique likes (using Set to prevent duplicates)
-    const likeSet = new Set<string>();
-    const likes: any[] = [];
-
-    // Try to generate about 5 likes per post
-    while (likes.length < Math.floor(scale * 5)) {
-      const post_id = faker.helpers.arrayElement(posts)._id;
-      const user_id = faker.helpers.arrayElement(users)._id;
-      const likeKey = `${post_id}_${user_id}`;
-
-      if (!likeSet.has(likeKey)) {
-        likeSet.add(likeKey);
-        likes.push({
-          _id: new ObjectId(),
-          post_id,
-          user_id,
-          created_at: faker.date.past(),
-        });
+        if (supportsStorage(adapter)) {
+          this.storage[scale] ??= {};
+          this.storage[scale][adapter.key] = await this.measureStorage(adapter, data);
+          await this.cleanup(adapter);
+        }
       }
-    }
 
-    return { users, posts, likes };
-  }
+      // The variants of a suite ran on the same data and have to agree
+      if (fingerprints.size > 1) {
+        this.verification[scale] = {
+          ...this.verification[scale],
+          ...verifyOutcomes(fingerprints),
+        };
+      }
+    }
 
-  async runTests(scale: Scale): Promise<TestResults> {
-    // Clear everything first
-    await this.cleanup();
-  
-    console.log("Running basic tests...");
-    // Run basic tests independently
-    const basicData = await this.generateBasicTestData(scale);
-    const basicResults = {
-      postgresBasic: await this.runPostgresBasicTests(scale, basicData),
-      mongoBasic: await this.runMongoBasicTests(this.mongo, basicData),
-      mongoAtlas: await this.runMongoBasicTests(this.mongoCloud, basicData),  // MongoDB Atlas tests
-    };
-    await this.cleanup(); // Clean between test sets
-  
-    console.log("Running relational tests...");
-    // Run relational tests independently
-    const relationalData = await this.generateRelationalTestData(scale);
-    const relationalResults = {
-      postgresWithRelations: await this.runPostgresRelationsTests(
-        scale,
-        relationalData,
-      ),
-      mongoWithRelations: await this.runMongoRelationsTests(
-        scale,
-        relationalData,
-      ),
-    };
-    await this.cleanup(); // Clean between test sets
-  
-    console.log("Running indexed tests...");
-    // Run indexed tests independently
-    const mongoData = await this.generateMongoTestData(scale);
-    const indexedResults = {
-      mongoWithIndexes: await this.runMongoIndexedTests(scale, mongoData),
-    };
-  
-    // Combine all results
-    const results: TestResults = {
-      postgresBasic: basicResults.postgresBasic,
-      postgresWithRelations: relationalResults.postgresWithRelations,
-      mongoBasic: basicResults.mongoBasic,
-      mongoWithRelations: relationalResults.mongoWithRelations,
-      mongoWithIndexes: indexedResults.mongoWithIndexes,
-      mongoAtlas: basicResults.mongoAtlas,  // Add MongoDB Atlas results
-    };
-  
     this.formatResults(scale, results);
     return results;
   }
 
-  private async cleanup() {
-    console.log("Cleaning up databases...");
+  private async cleanup(adapter: DatabaseAdapter) {
+    console.log(`Cleaning up ${adapter.label}...`);
     try {
-      // Clean Postgres
-      await this.prisma.like.deleteMany({});
-      await this.prisma.follows.deleteMany({});
-      await this.prisma.post.deleteMany({});
-      await this.prisma.user.deleteMany({});
-
-      // Clean MongoDB
-      const db = this.mongo.db(this.dbName);
-      await db.collection("likes").deleteMany({});
-      await db.collection("follows").deleteMany({});
-      await db.collection("posts").deleteMany({});
-      await db.collection("users").deleteMany({});
+      await adapter.cleanup();
     } catch (error) {
       console.error("Error during cleanup:", error);
       throw error;
     }
   }
 
-  private async runPostgresBasicTests(
-    scale: Scale,
-    testData: TestData["basic"],
-  ): Promise<any> {
-    return {
-      writes: await this.measure("Postgres Basic Writes", async () => {
-        // Users are already created in generateBasicTestData
-        await this.prisma.post.createMany({ data: testData.posts });
-      }),
-
-      simpleRead: await this.measure("Postgres Basic Read", async () => {
-        await this.prisma.post.findMany();
-      }),
-
-      filteredRead: await this.measure("Postgres Basic Filtered", async () => {
-        await this.prisma.post.findMany({
-          where: {
-            status: "active",
-          },
-        });
-      }),
-
-      projectedRead: await this.measure(
-        "Postgres Basic Projected",
-        async () => {
-          await this.prisma.post.findMany({
-            select: {
-              title: true,
-              created_at: true,
-            },
-          });
-        },
-      ),
-
-      sortedRead: await this.measure("Postgres Basic Sorted", async () => {
-        await this.prisma.post.findMany({
-          orderBy: {
-            created_at: "desc",
-          },
-        });
-      }),
-
-      update: await this.measure("Postgres Basic Update", async () => {
-        await this.prisma.post.updateMany({
-          where: {
-            status: "active",
-          },
-          data: {
-            status: "archived",
-          },
-        });
-      }),
-
-      delete: await this.measure("Postgres Basic Delete", async () => {
-        await this.prisma.post.deleteMany({
-          where: {
-            status: "archived",
-          },
-        });
-      }),
-    };
-  }
-
-  private async runPostgresRelationsTests(
-    scale: Scale,
-    testData: TestData["relational"],
-  ): Promise<any> {
-    return {
-      writes: await this.measure("Postgres Relations Writes", async () => {
-        // Remove IDs from posts and likes before inserting
-        const postsWithoutIds = testData.posts.map((post) => ({
-          title: post.title,
-          body: post.body,
-          status: post.status,
-          created_at: post.created_at,
-          user_id: post.user_id,
-        }));
-
-        const posts = await this.prisma.post.createMany({
-          data: postsWithoutIds,
-        });
-
-        const likesWithoutIds = testData.likes.map((like) => ({
-          post_id: like.post_id,
-          user_id: like.user_id,
-        }));
-
-        await this.prisma.like.createMany({
-          data: likesWithoutIds,
-          skipDuplicates: true,
-        });
-      }),
-
-      // Rest of the tests remain the same
-      simpleRead: await this.measure("Postgres Relations Read", async () => {
-        await this.prisma.post.findMany({
-          include: {
-            user: true,
-            likes: true,
-          },
-        });
-      }),
-
-      filteredRead: await this.measure(
-        "Postgres Relations Filtered",
-        async () => {
-          await this.prisma.post.findMany({
-            where: {
-              status: "active",
-              likes: { some: {} },
-            },
-            include: {
-              user: true,
-              likes: true,
-            },
-          });
-        },
-      ),
+  // Runs on the relational variant of every engine, one column per engine
+  async runAggregationTests(scale: Scale): Promise<AggregationResults> {
+    const results: AggregationResults = {};
+    const data = this.generate("aggregation", scale, generateRelationalTestData);
+
+    for (const adapter of this.adapters) {
+      const name = adapter.target ?? adapter.engine;
+      if (adapter.suite !== "relational" || results[name]) continue;
+
+      await this.cleanup(adapter);
+      await adapter.seed(data);
+      await adapter.writes();
+
+      const engineResults = {} as AggregationOperationResults;
+      for (const op of AGGREGATION_OPERATIONS) {
+        await this.explain(scale, adapter, op, () => adapter[op]());
+        engineResults[op] = await this.measure(
+          `${adapter.label} ${op}`,
+          () => adapter[op](),
+        );
+      }
+      results[name] = engineResults;
 
-      projectedRead: await this.measure(
-        "Postgres Relations Projected",
-        async () => {
-          await this.prisma.post.findMany({
-            where: { status: "active" },
-            select: {
-              title: true,
-              created_at: true,
-              user: {
-                select: { username: true },
-              },
-              _count: { select: { likes: true } },
-            },
-          });
-        },
-      ),
+      await this.cleanup(adapter);
+    }
 
-      sortedRead: await this.measure("Postgres Relations Sorted", async () => {
-        await this.prisma.post.findMany({
-          where: { status: "active" },
-          select: {
-            title: true,
-            created_at: true,
-            user: {
-              select: { username: true },
-            },
-            _count: { select: { likes: true } },
-          },
-          orderBy: [
-            { created_at: "desc" },
-            { title: "asc" },
-          ],
-        });
-      }),
-
-      update: await this.measure("Postgres Relations Update", async () => {
-        const posts = await this.prisma.post.findMany({
-          where: { likes: { some: {} } },
-          select: { id: true },
-        });
-
-        await this.prisma.post.updateMany({
-          where: { id: { in: posts.map((p) => p.id) } },
-          data: { status: "trending" },
-        });
-      }),
-
-      delete: await this.measure("Postgres Relations Delete", async () => {
-        // Delete posts with no likes
-        await this.prisma.post.deleteMany({
-          where: {
-            likes: { none: {} },
-          },
-        });
-      }),
-    };
+    return results;
   }
 
-  private async runMongoBasicTests(
-    client: MongoClient,
-    testData: any,
-  ): Promise<any> {
-    const db = client.db(this.dbName);
+  // Runs on the relational variant of every engine, queries are made for the
+  // user following the most other users, the heaviest home timeline
+  async runGraphTests(scale: Scale): Promise<GraphResults> {
+    const results: GraphResults = {};
+    const data = this.generate("graph", scale, generateGraphTestData);
+
+    const following = new Map<number, number>();
+    for (const follow of data.follows) {
+      following.set(
+        follow.following_user_id,
+        (following.get(follow.following_user_id) ?? 0) + 1,
+      );
+    }
+    const [userId] = [...following].reduce((max, entry) =>
+      entry[1] > max[1] ? entry : max
+    );
 
-    return {
-      writes: await this.measure("Mongo Basic Writes", async () => {
-        // Let MongoDB handle the _id generation
-        const users = testData.users.map((user: any) => ({
-          username: user.username,
-          role: user.role,
-          created_at: user.created_at,
-        }));
-        await db.collection("users").insertMany(users);
-
-        const userDocs = await db.collection("users").find().toArray();
-        const posts = testData.posts.map((post: any) => ({
-          title: post.title,
-          body: post.body,
-          status: post.status,
-          created_at: post.created_at,
-          user_id: faker.helpers.arrayElement(userDocs)._id, // Reference a valid MongoDB user
-        }));
-        await db.collection("posts").insertMany(posts);
-      }),
-
-      simpleRead: await this.measure("Mongo Basic Read", async () => {
-        await db.collection("posts").find().toArray();
-      }),
-
-      filteredRead: await this.measure("Mongo Basic Filtered", async () => {
-        await db.collection("posts").find({
-          status: "active",
-        }).toArray();
-      }),
-
-      projectedRead: await this.measure("Mongo Basic Projected", async () => {
-        await db.collection("posts").find({}, {
-          projection: { title: 1, created_at: 1 },
-        }).toArray();
-      }),
-
-      sortedRead: await this.measure("Mongo Basic Sorted", async () => {
-        await db.collection("posts")
-          .find()
-          .sort({ created_at: -1 })
-          .toArray();
-      }),
-
-      update: await this.measure("Mongo Basic Update", async () => {
-        await db.collection("posts").updateMany(
-          { status: "active" },
-          { $set: { status: "archived" } },
+    for (const adapter of this.adapters) {
+      const name = adapter.target ?? adapter.engine;
+      if (adapter.suite !== "relational" || results[name]) continue;
+      if (!supportsGraph(adapter)) continue;
+
+      await this.cleanup(adapter);
+      await adapter.seed(data);
+      await adapter.writes();
+
+      const engineResults = {} as GraphOperationResults;
+      const reset = async () => {
+        await adapter.cleanup();
+        await adapter.seed(data);
+        await adapter.writes();
+      };
+      await this.explain(scale, adapter, "followWrites", () => adapter.followWrites(), reset);
+      engineResults.followWrites = await this.measure(
+        `${adapter.label} followWrites`,
+        () => adapter.followWrites(),
+        reset,
+      );
+
+      for (const op of GRAPH_OPERATIONS) {
+        if (op === "followWrites") continue;
+        await this.explain(scale, adapter, op, () => adapter[op](userId));
+        engineResults[op] = await this.measure(
+          `${adapter.label} ${op}`,
+          () => adapter[op](userId),
         );
-      }),
+      }
+      results[name] = engineResults;
 
-      delete: await this.measure("Mongo Basic Delete", async () => {
-        await db.collection("posts").deleteMany({
-          status: "archived",
-        });
-      }),
-    };
-  }
+      await this.cleanup(adapter);
+    }
 
-  private async runMongoRelationsTests(
-    scale: Scale,
-    testData: TestData["relational"],
-  ): Promise<any> {
-    const db = this.mongo.db(this.dbName);
+    return results;
+  }
 
-    return {
-      writes: await this.measure("Mongo Relations Writes", async () => {
-        await db.collection("users").insertMany(testData.users);
-        await db.collection("posts").insertMany(testData.posts);
+  // Runs on the relational variant of every engine, first without and then
+  // with the feed index. The keyset pages start after the last post of the
+  // previous page, taken from the generated data.
+  async runPaginationTests(scale: Scale): Promise<PaginationResults> {
+    const results: PaginationResults = {};
+    const data = this.generate("pagination", scale, generateRelationalTestData);
 
-        // Insert likes with ordered: false to continue on error
-        try {
-          await db.collection("likes").insertMany(testData.likes, {
-            ordered: false,
-          });
-        } catch (error) {
-          console.log("Some duplicate likes were skipped");
+    const feed = [...data.posts].sort((a, b) =>
+      b.created_at.getTime() - a.created_at.getTime() || b.id - a.id
+    );
+    const lastPage = Math.ceil(feed.length / FEED_PAGE_SIZE) - 1;
+    const pages = { First: 0, Middle: Math.floor(lastPage / 2), Last: lastPage };
+    const cursor = (page: number): FeedCursor | null =>
+      page === 0 ? null : feed[page * FEED_PAGE_SIZE - 1];
+    // Local engines and targets, a target runs next to its engine's variants
+    const done = new Set<string>();
+
+    for (const adapter of this.adapters) {
+      const name = adapter.target ?? adapter.engine;
+      if (adapter.suite !== "relational" || done.has(name)) continue;
+      if (!supportsPagination(adapter)) continue;
+      done.add(name);
+
+      await this.cleanup(adapter);
+      await adapter.seed(data);
+      await adapter.writes();
+
+      for (const indexed of [false, true]) {
+        if (indexed) await adapter.createFeedIndex();
+        const variant = indexed ? "indexed" : "unindexed";
+        const engineResults = {} as PaginationOperationResults;
+
+        for (const [depth, page] of Object.entries(pages)) {
+          const expected = feed
+            .slice(page * FEED_PAGE_SIZE, (page + 1) * FEED_PAGE_SIZE)
+            .map((post) => post.id);
+          const runs = {
+            offset: () => adapter.offsetPage(page),
+            keyset: () => adapter.keysetPage(cursor(page)),
+          };
+
+          for (const [method, fn] of Object.entries(runs)) {
+            const op = `${method}${depth}` as PaginationOperation;
+            const ids = await fn();
+            if (ids.join() !== expected.join()) {
+              console.error(`[ERROR] ${adapter.label} ${op} returned other posts than page ${page + 1} of the feed`);
+            }
+
+            await this.explain(scale, adapter, `${op} ${variant}`, fn);
+            engineResults[op] = await this.measure(`${adapter.label} ${variant} ${op}`, fn);
+          }
         }
-      }),
-
-      simpleRead: await this.measure("Mongo Relations Read", async () => {
-        await db.collection("posts").aggregate([
-          {
-            $lookup: {
-              from: "users",
-              localField: "user_id",
-              foreignField: "_id",
-              as: "user",
-            },
-          },
-          {
-            $lookup: {
-              from: "likes",
-              localField: "_id",
-              foreignField: "post_id",
-              as: "likes",
-            },
-          },
-          { $unwind: "$user" },
-        ]).toArray();
-      }),
-
-      filteredRead: await this.measure("Mongo Relations Filtered", async () => {
-        await db.collection("posts").aggregate([
-          {
-            $match: { status: "active" },
-          },
-          {
-            $lookup: {
-              from: "users",
-              localField: "user_id",
-              foreignField: "_id",
-              as: "user",
-            },
-          },
-          {
-            $lookup: {
-              from: "likes",
-              localField: "_id",
-              foreignField: "post_id",
-              as: "likes",
-            },
-          },
-          {
-            $match: { "likes.0": { $exists: true } },
-          },
-          { $unwind: "$user" },
-        ]).toArray();
-      }),
-
-      projectedRead: await this.measure(
-        "Mongo Relations Projected",
-        async () => {
-          await db.collection("posts").aggregate([
-            {
-              $match: { status: "active" },
-            },
-            {
-              $lookup: {
-                from: "users",
-                localField: "user_id",
-                foreignField: "_id",
-                as: "user",
-              },
-            },
-            {
-              $lookup: {
-                from: "likes",
-                localField: "_id",
-                foreignField: "post_id",
-                as: "likes",
-              },
-            },
-            { $unwind: "$user" },
-            {
-              $project: {
-                title: 1,
-                created_at: 1,
-                "user.username": 1,
-                likeCount: { $size: "$likes" },
-              },
-            },
-          ]).toArray();
-        },
-      ),
 
-      sortedRead: await this.measure("Mongo Relations Sorted", async () => {
-        await db.collection("posts").aggregate([
-          {
-            $match: { status: "active" },
-          },
-          {
-            $lookup: {
-              from: "users",
-              localField: "user_id",
-              foreignField: "_id",
-              as: "user",
-            },
-          },
-          {
-            $lookup: {
-              from: "likes",
-              localField: "_id",
-              foreignField: "post_id",
-              as: "likes",
-            },
-          },
-          { $unwind: "$user" },
-          {
-            $project: {
-              title: 1,
-              created_at: 1,
-              "user.username": 1,
-              likeCount: { $size: "$likes" },
-            },
-          },
-          {
-            $sort: { created_at: -1, title: 1 },
-          },
-        ]).toArray();
-      }),
-
-      update: await this.measure("Mongo Relations Update", async () => {
-        const postsWithLikes = await db.collection("posts").aggregate([
-          {
-            $lookup: {
-              from: "likes",
-              localField: "_id",
-              foreignField: "post_id",
-              as: "likes",
-            },
-          },
-          {
-            $match: { "likes.0": { $exists: true } },
-          },
-        ]).toArray();
-
-        await db.collection("posts").updateMany(
-          { _id: { $in: postsWithLikes.map((p) => p._id) } },
-          { $set: { status: "trending" } },
-        );
-      }),
-
-      delete: await this.measure("Mongo Relations Delete", async () => {
-        const postsWithoutLikes = await db.collection("posts").aggregate([
-          {
-            $lookup: {
-              from: "likes",
-              localField: "_id",
-              foreignField: "post_id",
-              as: "likes",
-            },
-          },
-          {
-            $match: { "likes.0": { $exists: false } },
-          },
-        ]).toArray();
-
-        await db.collection("posts").deleteMany({
-          _id: { $in: postsWithoutLikes.map((p) => p._id) },
-        });
-      }),
-    };
-  }
+        results[`${name}-${variant}`] = engineResults;
+      }
 
-  private async runMongoIndexedTests(
-    scale: Scale,
-    testData: TestData["relational"],
-  ): Promise<any> {
-    const db = this.mongo.db(this.dbName);
+      await adapter.dropFeedIndex();
+      await this.cleanup(adapter);
+    }
 
-    return {
-      writes: await this.measure("Mongo Indexed Writes", async () => {
-        // Bulk operations remain the same
-        const userOps = db.collection("users").initializeUnorderedBulkOp();
-        testData.users.forEach((user) => {
-          userOps.insert(user);
-        });
-
-        const postOps = db.collection("posts").initializeUnorderedBulkOp();
-        testData.posts.forEach((post) => {
-          postOps.insert(post);
-        });
-
-        const likeOps = db.collection("likes").initializeUnorderedBulkOp();
-        testData.likes.forEach((like) => {
-          likeOps.insert(like);
-        });
+    return results;
+  }
 
-        try {
-          await Promise.all([
-            userOps.execute(),
-            postOps.execute(),
-            likeOps.execute(),
-          ]);
-        } catch (error) {
-          console.log("Some documents were skipped due to duplicates");
-        }
-      }),
-
-      simpleRead: await this.measure("Mongo Indexed Read", async () => {
-        // Use basic index
-        await db.collection("posts")
-          .find()
-          .toArray();
-      }),
-
-      filteredRead: await this.measure("Mongo Indexed Filtered", async () => {
-        // Use single field index only
-        await db.collection("posts")
-          .find({ status: "active" })
-          .hint({ status: 1 })
-          .toArray();
-      }),
-
-      projectedRead: await this.measure("Mongo Indexed Projected", async () => {
-        // Use compound index on status and created_at
-        await db.collection("posts")
-          .find(
-            { status: "active" },
-            { projection: { title: 1, created_at: 1 } },
+  // Runs on the relational variant of every engine with text search, once per
+  // search method. Index builds are measured on the written posts.
+  async runSearchTests(scale: Scale): Promise<SearchResults> {
+    const results: SearchResults = {};
+    const data = this.generate("search", scale, generateRelationalTestData);
+    const queries = searchQueries(data);
+    this.searchQueries[scale] = queries;
+    const done = new Set<string>();
+
+    for (const adapter of this.adapters) {
+      const name = adapter.target ?? adapter.engine;
+      if (adapter.suite !== "relational" || done.has(name)) continue;
+      if (!supportsSearch(adapter)) continue;
+      done.add(name);
+
+      await this.cleanup(adapter);
+      await adapter.seed(data);
+      await adapter.writes();
+
+      for (const method of adapter.searchMethods) {
+        const indexed = !UNINDEXED_SEARCH_METHODS.has(method);
+        await adapter.dropSearchIndex(method);
+
+        // The last iteration leaves the index in place for the searches
+        const build = indexed
+          ? await this.measure(
+            `${adapter.label} ${method} index build`,
+            () => adapter.createSearchIndex(method),
+            () => adapter.dropSearchIndex(method),
           )
-          .hint({ "status": 1, "created_at": -1 }) // Match exactly with setupMongoIndexes
-          .toArray();
-      }),
-
-      sortedRead: await this.measure("Mongo Indexed Sorted", async () => {
-        await db.collection("posts")
-          .find()
-          .sort({ created_at: -1 })
-          .hint({ "created_at": 1 }) // Match exactly with setupMongoIndexes
-          .toArray();
-      }),
-
-      update: await this.measure("Mongo Indexed Update", async () => {
-        await db.collection("posts").updateMany(
-          { status: "active" },
-          { $set: { status: "archived" } },
-        ); // Remove hint for update as it's not needed
-      }),
-
-      delete: await this.measure("Mongo Indexed Delete", async () => {
-        await db.collection("posts").deleteMany(
-          { status: "archived" },
-        ); // Remove hint for delete as it's not needed
-      }),
-    };
-  }
+          : null;
 
-  async runAggregationTests(): Promise<AggregationResults> {
-    const db = this.mongo.db(this.dbName);
-
-    const results: AggregationResults = {
-      postgres: {
-        postsPerUser: await this.measure(
-          "Postgres Posts per User",
-          async () => {
-            await this.prisma.user.findMany({
-              select: {
-                username: true,
-                _count: {
-                  select: { posts: true },
-                },
-              },
-              orderBy: {
-                posts: { _count: "desc" },
-              },
-            });
-          },
-        ),
+        const operations = {} as SearchOperationResults;
+        for (const op of SEARCH_OPERATIONS) {
+          const fn = () => adapter.search(method, queries[op]);
+          await this.explain(scale, adapter, `${op} ${method}`, fn);
+          operations[op] = await this.measure(`${adapter.label} ${method} ${op}`, fn);
+        }
 
-        avgLikesPerPost: await this.measure(
-          "Postgres Avg Likes per Post",
-          async () => {
-            await this.prisma.$queryRaw`
-            SELECT AVG(like_count) 
-            FROM (
-              SELECT COUNT(l.post_id) as like_count 
-              FROM "Post" p 
-              LEFT JOIN "Like" l ON p.id = l.post_id 
-              GROUP BY p.id
-            ) counts
-          `;
-          },
-        ),
+        results[`${name}-${method}`] = {
+          build,
+          sizeBytes: indexed ? await adapter.searchIndexSize(method) : null,
+          operations,
+        };
+        await adapter.dropSearchIndex(method);
+      }
 
-        mostActiveUsers: await this.measure(
-          "Postgres Most Active Users",
-          async () => {
-            await this.prisma.user.findMany({
-              select: {
-                username: true,
-                posts: {
-                  select: {
-                    _count: {
-                      select: { likes: true },
-                    },
-                  },
-                },
-                _count: {
-                  select: { posts: true },
-                },
-              },
-              orderBy: {
-                posts: { _count: "desc" },
-              },
-              take: 10,
-            });
-          },
-        ),
+      await this.cleanup(adapter);
+    }
 
-        mostLikedPosts: await this.measure(
-          "Postgres Most Liked Posts",
-          async () => {
-            await this.prisma.post.findMany({
-              select: {
-                title: true,
-                user: {
-                  select: { username: true },
-                },
-                _count: {
-                  select: { likes: true },
-                },
-              },
-              orderBy: {
-                likes: { _count: "desc" },
-              },
-              take: 10,
-            });
-          },
-        ),
+    return results;
+  }
 
-        userEngagement: await this.measure(
-          "Postgres User Engagement",
-          async () => {
-            await this.prisma.$queryRaw`
-            SELECT 
-              u.username,
-              COUNT(DISTINCT p.id) as post_count,
-              COUNT(DISTINCT l.post_id) as likes_given,
-              COUNT(DISTINCT pl.user_id) as likes_received
-            FROM "User" u
-            LEFT JOIN "Post" p ON u.id = p.user_id
-            LEFT JOIN "Like" l ON u.id = l.user_id
-            LEFT JOIN "Like" pl ON p.id = pl.post_id
-            GROUP BY u.id, u.username
-            ORDER BY (
-              COUNT(DISTINCT p.id) + 
-              COUNT(DISTINCT l.post_id) + 
-              COUNT(DISTINCT pl.user_id)
-            ) DESC
-            LIMIT 10
-          `;
-          },
-        ),
-      },
+  // Runs on the relational variant of every engine with bulk loading. The
+  // relational dataset is generated batch by batch while it is inserted, only
+  // the inserts are timed.
+  async runSeedingTests(scale: Scale, batchSize: number): Promise<SeedingResults> {
+    const results: SeedingResults = {};
+
+    for (const adapter of this.adapters) {
+      const name = adapter.target ?? adapter.engine;
+      if (adapter.suite !== "relational" || results[name]) continue;
+      if (!supportsBulkLoad(adapter)) continue;
+
+      await this.cleanup(adapter);
+      console.log(`[INFO] Seeding ${adapter.label} with ${scale} posts in batches of ${batchSize}...`);
+
+      const tables = Object.fromEntries(
+        SEEDING_TABLES.map((table) => [table, { rows: 0, durationMs: 0 }]),
+      ) as Record<SeedingTable, { rows: number; durationMs: number }>;
+      const stream = fingerprintStream(streamTestData("relational", scale, this.seed, batchSize));
+      let batches = 0;
+      let peakHeapBytes = process.memoryUsage().heapUsed;
+
+      for (const batch of stream.batches()) {
+        const start = performance.now();
+        tables[batch.table].rows += await adapter.loadBatch(batch);
+        tables[batch.table].durationMs += performance.now() - start;
+        batches++;
+        peakHeapBytes = Math.max(peakHeapBytes, process.memoryUsage().heapUsed);
+      }
 
-      mongo: {
-        postsPerUser: await this.measure("Mongo Posts per User", async () => {
-          await db.collection("users").aggregate([
-            {
-              $lookup: {
-                from: "posts",
-                localField: "_id",
-                foreignField: "user_id",
-                as: "posts",
-              },
-            },
+      // The same for every engine, the stream is generated from the same seed
+      this.datasets[scale] = { ...this.datasets[scale], seeding: stream.digest() };
+
+      const throughput = ({ rows, durationMs }: { rows: number; durationMs: number }) => ({
+        rows,
+        durationMs,
+        rowsPerSecond: durationMs > 0 ? rows / (durationMs / 1000) : 0,
+      });
+      const total = Object.values(tables).reduce(
+        (sum, table) => ({ rows: sum.rows + table.rows, durationMs: sum.durationMs + table.durationMs }),
+        { rows: 0, durationMs: 0 },
+      );
+      results[name] = {
+        batchSize,
+        batches,
+        tables: Object.fromEntries(
+          Object.entries(tables).map(([table, result]) => [table, throughput(result)]),
+        ) as Record<SeedingTable, SeedingTableResult>,
+        total: throughput(total),
+        peakHeapBytes,
+      };
+      console.log(`[INFO] ${adapter.label}: ${total.rows} rows in ${total.durationMs.toFixed(0)}ms`);
+
+      await this.cleanup(adapter);
+    }
+
+    return results;
+  }
+
+  // Runs on the relational variant of every engine with transactions, once per
+  // transaction mode. The contention runs let `writers` concurrent writers like
+  // the same posts and transfer the same post.
+  async runTransactionTests(scale: Scale, writers: number): Promise<TransactionResults> {
+    const results: TransactionResults = {};
+    const data = this.generate("transaction", scale, generateRelationalTestData);
+
+    const likes = unlikedPairs(data, writers * CONTENTION_ROUNDS);
+    const likedPosts = [...new Set(likes.map(([postId]) => postId))];
+    const [hotPost] = data.posts;
+    const newOwner = data.users.find((user) => user.id !== hotPost.user_id) ?? data.users[0];
+    const [deletedUser] = data.users;
+    const done = new Set<string>();
+
+    for (const adapter of this.adapters) {
+      const name = adapter.target ?? adapter.engine;
+      if (adapter.suite !== "relational" || done.has(name)) continue;
+      if (!supportsTransactions(adapter)) continue;
+      done.add(name);
+
+      const reset = async () => {
+        await adapter.cleanup();
+        await adapter.seed(data);
+        await adapter.writes();
+      };
+
+      for (const mode of adapter.transactionModes) {
+        const run: Record<TransactionOperation, () => Promise<number>> = {
+          likePost: () => adapter.likePost(mode, likes[0][0], likes[0][1]),
+          transferPost: () => adapter.transferPost(mode, hotPost.id, newOwner.id),
+          deleteUser: () => adapter.deleteUser(mode, deletedUser.id),
+        };
+
+        await this.cleanup(adapter);
+        const operations = {} as TransactionResult["operations"];
+        for (const op of TRANSACTION_OPERATIONS) {
+          await reset();
+          operations[op] = await this.measure(`${adapter.label} ${mode} ${op}`, run[op], reset);
+        }
+        await reset();
+
+        console.log(`${adapter.label} ${mode}: ${writers} conflicting writers...`);
+        const before = await adapter.likeCounts(likedPosts);
+        const liked = await runContention(
+          "likePost",
+          likes.map(([postId, userId]) => () => adapter.likePost(mode, postId, userId)),
+          writers,
+        );
+        const after = await adapter.likeCounts(likedPosts);
+
+        const transferred = await runContention(
+          "transferPost",
+          Array.from({ length: writers * CONTENTION_ROUNDS }, (_, i) =>
+            () => adapter.transferPost(mode, hotPost.id, data.users[i % data.users.length].id)
+          ),
+          writers,
+        );
+
+        results[`${name}-${mode}`] = {
+          operations,
+          contention: [
             {
-              $project: {
-                username: 1,
-                postCount: { $size: "$posts" },
-              },
+              ...liked,
+              // Every committed like counted exactly once
+              consistent: after.actual - before.actual === liked.committed &&
+                after.denormalized - before.denormalized === liked.committed,
             },
-            { $sort: { postCount: -1 } },
-          ]).toArray();
-        }),
+            { ...transferred, consistent: null },
+          ],
+        };
 
-        avgLikesPerPost: await this.measure(
-          "Mongo Avg Likes per Post",
-          async () => {
-            await db.collection("posts").aggregate([
-              {
-                $lookup: {
-                  from: "likes",
-                  localField: "_id",
-                  foreignField: "post_id",
-                  as: "likes",
-                },
-              },
-              {
-                $group: {
-                  _id: null,
-                  avgLikes: { $avg: { $size: "$likes" } },
-                },
-              },
-            ]).toArray();
-          },
-        ),
+        await this.cleanup(adapter);
+      }
+    }
 
-        mostActiveUsers: await this.measure(
-          "Mongo Most Active Users",
-          async () => {
-            await db.collection("users").aggregate([
-              {
-                $lookup: {
-                  from: "posts",
-                  localField: "_id",
-                  foreignField: "user_id",
-                  as: "posts",
-                },
-              },
-              {
-                $lookup: {
-                  from: "likes",
-                  localField: "posts._id",
-                  foreignField: "post_id",
-                  as: "receivedLikes",
-                },
-              },
-              {
-                $project: {
-                  username: 1,
-                  postCount: { $size: "$posts" },
-                  totalLikes: { $size: "$receivedLikes" },
-                },
-              },
-              { $sort: { postCount: -1, totalLikes: -1 } },
-              { $limit: 10 },
-            ]).toArray();
-          },
-        ),
+    return results;
+  }
 
-        mostLikedPosts: await this.measure(
-          "Mongo Most Liked Posts",
-          async () => {
-            await db.collection("posts").aggregate([
-              {
-                $lookup: {
-                  from: "likes",
-                  localField: "_id",
-                  foreignField: "post_id",
-                  as: "likes",
-                },
-              },
-              {
-                $lookup: {
-                  from: "users",
-                  localField: "user_id",
-                  foreignField: "_id",
-                  as: "user",
-                },
-              },
-              {
-                $project: {
-                  title: 1,
-                  "user.username": 1,
-                  likeCount: { $size: "$likes" },
-                },
-              },
-              { $sort: { likeCount: -1 } },
-              { $limit: 10 },
-            ]).toArray();
-          },
-        ),
+  // Load test of a single read or aggregation operation on every adapter,
+  // each concurrency level runs for durationMs on the same seeded data
+  async runThroughputTests(
+    scale: Scale,
+    operation: ThroughputOperation,
+    concurrencyLevels: number[],
+    durationMs: number,
+  ): Promise<ThroughputResults> {
+    const results: ThroughputResults = {};
+
+    for (const suite of SUITES) {
+      const adapters = this.adapters.filter((a) => a.suite === suite);
+      if (adapters.length === 0) continue;
+
+      const data = this.generate(suite, scale, SUITE_DATA[suite]);
+
+      for (const adapter of adapters) {
+        await this.cleanup(adapter);
+        await adapter.seed(data);
+        await adapter.writes();
+
+        results[adapter.key] = [];
+        for (const concurrency of concurrencyLevels) {
+          console.log(`${adapter.label} ${operation}: ${concurrency} workers...`);
+          results[adapter.key].push(
+            await runThroughput(() => adapter[operation](), concurrency, durationMs),
+          );
+        }
 
-        userEngagement: await this.measure(
-          "Mongo User Engagement",
-          async () => {
-            await db.collection("users").aggregate([
-              // Posts created
-              {
-                $lookup: {
-                  from: "posts",
-                  localField: "_id",
-                  foreignField: "user_id",
-                  as: "posts",
-                },
-              },
-              // Likes given
-              {
-                $lookup: {
-                  from: "likes",
-                  localField: "_id",
-                  foreignField: "user_id",
-                  as: "likesGiven",
-                },
-              },
-              // Likes received on posts
-              {
-                $lookup: {
-                  from: "likes",
-                  localField: "posts._id",
-                  foreignField: "post_id",
-                  as: "likesReceived",
-                },
-              },
-              {
-                $project: {
-                  username: 1,
-                  postCount: { $size: "$posts" },
-                  likesGiven: { $size: "$likesGiven" },
-                  likesReceived: { $size: "$likesReceived" },
-                  engagementScore: {
-                    $add: [
-                      { $size: "$posts" },
-                      { $size: "$likesGiven" },
-                      { $size: "$likesReceived" },
-                    ],
-                  },
-                },
-              },
-              { $sort: { engagementScore: -1 } },
-              { $limit: 10 },
-            ]).toArray();
-          },
-        ),
-      },
-    };
+        await this.cleanup(adapter);
+      }
+    }
+
+    return results;
+  }
+
+  // Replays the same generated operation sequence on the relational variant of
+  // every engine, on top of the relational data
+  async runWorkloadTests(
+    scale: Scale,
+    spec: WorkloadSpec,
+    operationCount: number,
+  ): Promise<WorkloadResults> {
+    const results: WorkloadResults = {};
+    const data = this.generate("workload", scale, generateRelationalTestData);
+    const steps = generateWorkload(spec, operationCount, data, scale, this.seed);
+
+    for (const adapter of this.adapters) {
+      const name = adapter.target ?? adapter.engine;
+      if (adapter.suite !== "relational" || results[name]) continue;
+      if (!supportsWorkload(adapter)) continue;
+
+      await this.cleanup(adapter);
+      await adapter.seed(data);
+      await adapter.writes();
+
+      console.log(`${adapter.label}: ${operationCount} operations...`);
+      results[name] = await runWorkload(adapter, steps);
+
+      await this.cleanup(adapter);
+    }
 
     return results;
   }
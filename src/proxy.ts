@@ -0,0 +1,113 @@
+import { createConnection, createServer, type AddressInfo, type Socket } from "net";
+import { performance } from "perf_hooks";
+import type { NetworkProfile } from "./types";
+
+// Round trips between typical cloud locations, e.g. two zones of one region,
+// us-east to us-west and us-east to eu-central
+export const NETWORK_PROFILES: Record<string, NetworkProfile> = {
+  "same-az": { rttMs: 0.5, jitterMs: 0.1, bandwidthMbps: 5000 },
+  "cross-region": { rttMs: 60, jitterMs: 5, bandwidthMbps: 1000 },
+  intercontinental: { rttMs: 150, jitterMs: 15, bandwidthMbps: 200 },
+};
+
+export interface LatencyProxy {
+  port: number;
+  close(): Promise<void>;
+}
+
+// Forwards the chunks of one direction half a round trip plus jitter later.
+// The link sends one chunk after the other at the bandwidth, chunks arrive in
+// the order they were sent like on a TCP connection.
+function delayedPipe(from: Socket, to: Socket, profile: NetworkProfile) {
+  const bytesPerMs = profile.bandwidthMbps === null ? Infinity : profile.bandwidthMbps * 125;
+  let linkFreeAt = 0;
+  let lastArrival = 0;
+
+  from.on("data", (chunk: Buffer) => {
+    const now = performance.now();
+    linkFreeAt = Math.max(now, linkFreeAt) + chunk.length / bytesPerMs;
+    const jitter = (Math.random() * 2 - 1) * profile.jitterMs;
+    lastArrival = Math.max(lastArrival, linkFreeAt + Math.max(0, profile.rttMs / 2 + jitter));
+    setTimeout(() => {
+      if (!to.destroyed) to.write(chunk);
+    }, lastArrival - now);
+  });
+  from.on("end", () => {
+    setTimeout(() => to.end(), Math.max(0, lastArrival - performance.now()));
+  });
+}
+
+// Listens on a free local port and forwards every connection to the upstream
+// database through the emulated network
+export async function startProxy(
+  upstream: { host: string; port: number },
+  profile: NetworkProfile,
+): Promise<LatencyProxy> {
+  const sockets = new Set<Socket>();
+  const server = createServer((client) => {
+    const database = createConnection(upstream);
+    for (const socket of [client, database]) {
+      sockets.add(socket);
+      socket.on("close", () => sockets.delete(socket));
+      // One side failing ends the connection for the other one too
+      socket.on("error", () => {
+        client.destroy();
+        database.destroy();
+      });
+    }
+    delayedPipe(client, database, profile);
+    delayedPipe(database, client, profile);
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    server.once("error", reject);
+    server.listen(0, "127.0.0.1", resolve);
+  });
+
+  return {
+    port: (server.address() as AddressInfo).port,
+    close: () => new Promise((resolve) => {
+      for (const socket of sockets) socket.destroy();
+      server.close(() => resolve());
+    }),
+  };
+}
+
+// Starts a proxy in front of the database of every URL variable and points the
+// variable at it. Returns a function that stops the proxies and restores the
+// variables.
+export async function proxyDatabases(
+  urls: Record<string, string>,
+  profile: NetworkProfile,
+): Promise<() => Promise<void>> {
+  const proxies: LatencyProxy[] = [];
+  const previous = Object.fromEntries(Object.keys(urls).map((name) => [name, process.env[name]]));
+
+  const restore = async () => {
+    await Promise.all(proxies.map((proxy) => proxy.close()));
+    for (const [name, value] of Object.entries(previous)) {
+      if (value === undefined) delete process.env[name];
+      else process.env[name] = value;
+    }
+  };
+
+  try {
+    for (const [name, url] of Object.entries(urls)) {
+      const parsed = new URL(url);
+      const defaultPort = parsed.protocol === "mongodb:" ? 27017 : 5432;
+      const proxy = await startProxy(
+        { host: parsed.hostname, port: Number(parsed.port || defaultPort) },
+        profile,
+      );
+      proxies.push(proxy);
+
+      parsed.hostname = "127.0.0.1";
+      parsed.port = String(proxy.port);
+      process.env[name] = parsed.toString();
+    }
+  } catch (error) {
+    await restore();
+    throw error;
+  }
+  return restore;
+}
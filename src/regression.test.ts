@@ -0,0 +1,215 @@
+import { afterAll, describe, expect, test } from "bun:test";
+import { spawnSync } from "child_process";
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from "fs";
+import os from "os";
+import path from "path";
+import {
+  alignMetrics,
+  collectMetrics,
+  compareResults,
+  formatChange,
+  formatValue,
+  relativeChange,
+  toJUnitXml,
+  type MetricComparison,
+} from "./regression";
+import { summarize } from "./stats";
+import type { StoredResults } from "./types";
+
+const stats = (ms: number) => summarize([ms]);
+
+// One scale of postgresBasic latencies, optionally with a throughput run
+function run(latencies: Record<string, number>, opsPerSecond?: number): StoredResults {
+  const ops = Object.fromEntries(Object.entries(latencies).map(([op, ms]) => [op, stats(ms)]));
+  return {
+    scaleTests: { 1000: { postgresBasic: ops } },
+    ...(opsPerSecond !== undefined && {
+      throughputOperation: "simpleRead",
+      throughputTests: { 1000: { postgresBasic: [{ concurrency: 4, opsPerSecond }] } },
+    }),
+  } as unknown as StoredResults;
+}
+
+describe("relativeChange", () => {
+  test("is positive when the candidate is worse", () => {
+    expect(relativeChange(10, 12, "ms")).toBeCloseTo(20);
+    expect(relativeChange(10, 8, "ms")).toBeCloseTo(-20);
+    expect(relativeChange(100, 80, "ops/s")).toBeCloseTo(20);
+    expect(relativeChange(100, 125, "rows/s")).toBeCloseTo(-25);
+  });
+
+  test("handles a baseline of 0", () => {
+    expect(relativeChange(0, 1, "ms")).toBe(Infinity);
+    expect(relativeChange(0, 0, "ms")).toBe(0);
+  });
+});
+
+describe("compareResults", () => {
+  const statusOf = (comparisons: MetricComparison[], operation: string) =>
+    comparisons.find((c) => c.operation === operation)?.status;
+
+  test("classifies the changes by the threshold", () => {
+    const comparisons = compareResults(
+      run({ simpleRead: 10, update: 10, delete: 10, writes: 10 }),
+      run({ simpleRead: 11.5, update: 8, delete: 11, writes: 10.9 }),
+      10,
+    );
+    expect(statusOf(comparisons, "simpleRead")).toBe("regression");
+    expect(statusOf(comparisons, "update")).toBe("improvement");
+    expect(statusOf(comparisons, "delete")).toBe("unchanged");
+    expect(statusOf(comparisons, "writes")).toBe("unchanged");
+  });
+
+  test("counts a change of exactly the threshold as unchanged", () => {
+    const [comparison] = compareResults(run({ simpleRead: 10 }), run({ simpleRead: 12 }), 20);
+    expect(comparison.change).toBeCloseTo(20);
+    expect(comparison.status).toBe("unchanged");
+  });
+
+  test("treats a drop in throughput as a regression", () => {
+    const comparisons = compareResults(run({}, 1000), run({}, 800), 10);
+    expect(comparisons).toEqual([expect.objectContaining({
+      group: "throughput",
+      operation: "simpleRead x4",
+      unit: "ops/s",
+      status: "regression",
+    })]);
+  });
+
+  test("lists metrics of only one run as missing or new", () => {
+    const comparisons = compareResults(
+      run({ simpleRead: 1, update: 1 }),
+      run({ simpleRead: 1, delete: 1 }),
+      10,
+    );
+    expect(comparisons.map((c) => [c.operation, c.status])).toEqual([
+      ["simpleRead", "unchanged"],
+      ["update", "missing"],
+      ["delete", "new"],
+    ]);
+  });
+
+  test("reads results files with single durations", () => {
+    const old = { scaleTests: { 1000: { postgresBasic: { simpleRead: 10 } } } } as unknown as StoredResults;
+    expect(compareResults(old, run({ simpleRead: 15 }), 10)[0].status).toBe("regression");
+  });
+});
+
+describe("collectMetrics and alignMetrics", () => {
+  test("puts the aggregations at their scale", () => {
+    const results = {
+      aggregationScale: 4000,
+      aggregationTests: { postgres: { postsPerUser: stats(3) } },
+    } as unknown as StoredResults;
+    expect(collectMetrics(results)).toEqual([
+      { group: "aggregation", scale: 4000, target: "postgres", operation: "postsPerUser", value: 3, unit: "ms" },
+    ]);
+  });
+
+  test("lines up the runs and marks gaps", () => {
+    const rows = alignMetrics([run({ simpleRead: 1 }), run({ simpleRead: 2, update: 3 })]);
+    expect(rows.map((row) => [row.operation, row.values])).toEqual([
+      ["simpleRead", [1, 2]],
+      ["update", [undefined, 3]],
+    ]);
+  });
+});
+
+describe("formatting", () => {
+  test("formats values by unit and signed changes", () => {
+    expect(formatValue(1.234, "ms")).toBe("1.23ms");
+    expect(formatValue(1500, "ops/s")).toBe("1500.0 ops/s");
+    expect(formatValue(undefined, "ms")).toBe("-");
+    expect(formatChange(12.345)).toBe("+12.3%");
+    expect(formatChange(-5)).toBe("-5.0%");
+    expect(formatChange(undefined)).toBe("-");
+  });
+});
+
+describe("toJUnitXml", () => {
+  const comparisons = compareResults(
+    run({ simpleRead: 10, update: 10, delete: 10 }),
+    run({ simpleRead: 20, update: 10, writes: 5 }),
+    10,
+  );
+  const xml = toJUnitXml(comparisons, 10);
+
+  test("counts the tests and failures", () => {
+    expect(xml).toStartWith(`<?xml version="1.0" encoding="UTF-8"?>\n`);
+    expect(xml).toContain(`<testsuites name="benchmark comparison" tests="4" failures="1">`);
+    expect(xml).toContain(
+      `<testsuite name="operations (scale 1000)" tests="4" failures="1" skipped="2">`,
+    );
+  });
+
+  test("reports a regression as a failure", () => {
+    expect(xml).toContain(
+      `    <testcase classname="operations.1000.postgresBasic" name="simpleRead" time="0.020000">\n` +
+      `      <failure type="regression" message="10.00ms -&gt; 20.00ms (+100.0%, threshold 10%)"/>\n` +
+      `    </testcase>`,
+    );
+  });
+
+  test("closes unchanged test cases and skips metrics of one run", () => {
+    expect(xml).toContain(
+      `<testcase classname="operations.1000.postgresBasic" name="update" time="0.010000"/>`,
+    );
+    expect(xml).toContain(`<skipped message="Not in the candidate run"/>`);
+    expect(xml).toContain(`<skipped message="Not in the baseline run"/>`);
+  });
+
+  test("escapes names and messages", () => {
+    const escaped = toJUnitXml([{
+      group: "throughput",
+      scale: 100,
+      target: `a&b<"c">`,
+      operation: `x<4>`,
+      unit: "ops/s",
+      baseline: 10,
+      candidate: 5,
+      change: 50,
+      status: "regression",
+    }], 10);
+    expect(escaped).toContain(`classname="throughput.100.a&amp;b&lt;&quot;c&quot;&gt;"`);
+    expect(escaped).toContain(`name="x&lt;4&gt;">`);
+    expect(escaped).toContain(`message="10.0 ops/s -&gt; 5.0 ops/s (+50.0%, threshold 10%)"`);
+    expect(escaped).not.toContain("time=");
+  });
+});
+
+describe("compare.ts", () => {
+  const dir = mkdtempSync(path.join(os.tmpdir(), "compare-test-"));
+  afterAll(() => rmSync(dir, { recursive: true, force: true }));
+  const file = (name: string, results: StoredResults) => {
+    const target = path.join(dir, name);
+    writeFileSync(target, JSON.stringify(results));
+    return target;
+  };
+  const compare = (...args: string[]) =>
+    spawnSync(process.execPath, ["run", "src/compare.ts", ...args, "--history", dir], {
+      encoding: "utf8",
+      timeout: 30_000,
+    });
+
+  test("exits with 1 on a regression and writes the JUnit report", () => {
+    const base = file("base.json", run({ simpleRead: 10 }));
+    const slow = file("slow.json", run({ simpleRead: 20 }));
+    const junit = path.join(dir, "comparison.xml");
+
+    const result = compare(base, slow, "--junit", junit);
+    expect(result.status).toBe(1);
+    expect(result.stderr).toContain("[ERROR] 1 regressions beyond 10%");
+    expect(readFileSync(junit, "utf8")).toBe(toJUnitXml(
+      compareResults(run({ simpleRead: 10 }), run({ simpleRead: 20 }), 10),
+      10,
+    ));
+
+    expect(compare(base, slow, "--threshold", "150").status).toBe(0);
+  });
+
+  test("exits with 2 on a usage error", () => {
+    const result = compare("--threshold=-1");
+    expect(result.status).toBe(2);
+    expect(result.stderr).toContain('--threshold must be a number >= 0, got "-1"');
+  });
+});
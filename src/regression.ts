@@ -0,0 +1,290 @@
+import { storedMedian } from "./stats";
+import type { StoredResults } from "./types";
+
+// One comparable number of a results file
+export interface Metric {
+  group: string;    // Section of the results file
+  scale: number;
+  target: string;   // Variant key or engine
+  operation: string;
+  value: number;
+  unit: "ms" | "ops/s" | "rows/s";
+}
+
+export type ComparisonStatus = "regression" | "improvement" | "unchanged" | "missing" | "new";
+
+export interface MetricComparison {
+  group: string;
+  scale: number;
+  target: string;
+  operation: string;
+  unit: Metric["unit"];
+  baseline?: number;
+  candidate?: number;
+  change?: number;  // Percent, positive means worse whatever the unit
+  status: ComparisonStatus;
+}
+
+// Latencies compare by median, throughputs by ops/sec or rows/sec
+export function collectMetrics(results: StoredResults): Metric[] {
+  const metrics: Metric[] = [];
+  const push = (
+    group: string,
+    scale: number | string,
+    target: string,
+    operation: string,
+    value: number,
+    unit: Metric["unit"] = "ms",
+  ) => metrics.push({ group, scale: Number(scale), target, operation, value, unit });
+
+  for (const [scale, variants] of Object.entries(results.scaleTests ?? {})) {
+    for (const [variant, ops] of Object.entries(variants)) {
+      for (const [op, stats] of Object.entries(ops)) {
+        push("operations", scale, variant, op, storedMedian(stats));
+      }
+    }
+  }
+
+  for (const [scale, variants] of Object.entries(results.indexTests ?? {})) {
+    for (const [variant, index] of Object.entries(variants)) {
+      push("indexes", scale, variant, "index build", storedMedian(index.build));
+    }
+  }
+
+  for (const [scale, variants] of Object.entries(results.maintenanceTests ?? {})) {
+    for (const [variant, ops] of Object.entries(variants)) {
+      for (const [op, stats] of Object.entries(ops)) {
+        push("maintenance", scale, variant, op, storedMedian(stats));
+      }
+    }
+  }
+
+  // Files written before aggregationScale was stored used the largest scale
+  const aggregationScale = results.aggregationScale ??
+    Math.max(0, ...Object.keys(results.scaleTests ?? {}).map(Number));
+  for (const [engine, ops] of Object.entries(results.aggregationTests ?? {})) {
+    for (const [op, stats] of Object.entries(ops)) {
+      push("aggregation", aggregationScale, engine, op, storedMedian(stats));
+    }
+  }
+
+  for (const [scale, engines] of Object.entries(results.graphTests ?? {})) {
+    for (const [engine, ops] of Object.entries(engines)) {
+      for (const [op, stats] of Object.entries(ops)) {
+        push("graph", scale, engine, op, storedMedian(stats));
+      }
+    }
+  }
+
+  for (const [scale, variants] of Object.entries(results.paginationTests ?? {})) {
+    for (const [variant, ops] of Object.entries(variants)) {
+      for (const [op, stats] of Object.entries(ops)) {
+        push("pagination", scale, variant, op, storedMedian(stats));
+      }
+    }
+  }
+
+  for (const [scale, variants] of Object.entries(results.searchTests ?? {})) {
+    for (const [variant, search] of Object.entries(variants)) {
+      if (search.build) push("search", scale, variant, "index build", storedMedian(search.build));
+      for (const [op, stats] of Object.entries(search.operations)) {
+        push("search", scale, variant, op, storedMedian(stats));
+      }
+    }
+  }
+
+  for (const [scale, engines] of Object.entries(results.seedingTests ?? {})) {
+    for (const [engine, seeding] of Object.entries(engines)) {
+      for (const [table, result] of Object.entries(seeding.tables)) {
+        push("seeding", scale, engine, table, result.rowsPerSecond, "rows/s");
+      }
+      push("seeding", scale, engine, "total", seeding.total.rowsPerSecond, "rows/s");
+    }
+  }
+
+  for (const [scale, variants] of Object.entries(results.transactionTests ?? {})) {
+    for (const [variant, transaction] of Object.entries(variants)) {
+      for (const [op, stats] of Object.entries(transaction.operations)) {
+        push("transaction", scale, variant, op, storedMedian(stats));
+      }
+      for (const run of transaction.contention) {
+        push(
+          "transaction",
+          scale,
+          variant,
+          `${run.operation} x${run.writers} writers`,
+          run.opsPerSecond,
+          "ops/s",
+        );
+      }
+    }
+  }
+
+  for (const [scale, engines] of Object.entries(results.workloadTests ?? {})) {
+    for (const [engine, workload] of Object.entries(engines)) {
+      for (const [op, stats] of Object.entries(workload.operations)) {
+        push("workload", scale, engine, op, storedMedian(stats));
+      }
+      push("workload", scale, engine, "throughput", workload.opsPerSecond, "ops/s");
+    }
+  }
+
+  for (const [scale, variants] of Object.entries(results.throughputTests ?? {})) {
+    for (const [variant, runs] of Object.entries(variants)) {
+      for (const run of runs) {
+        push(
+          "throughput",
+          scale,
+          variant,
+          `${results.throughputOperation} x${run.concurrency}`,
+          run.opsPerSecond,
+          "ops/s",
+        );
+      }
+    }
+  }
+
+  return metrics;
+}
+
+function metricKey(m: Pick<Metric, "group" | "scale" | "target" | "operation">) {
+  return `${m.group}|${m.scale}|${m.target}|${m.operation}`;
+}
+
+// Relative change in percent, positive when the candidate is worse
+export function relativeChange(baseline: number, candidate: number, unit: Metric["unit"]) {
+  const worse = unit === "ms" ? candidate - baseline : baseline - candidate;
+  if (baseline === 0) return worse > 0 ? Infinity : 0;
+  return (worse / baseline) * 100;
+}
+
+// Matches the metrics of both runs, in the order of the baseline followed by
+// the metrics only the candidate has
+export function compareResults(
+  baseline: StoredResults,
+  candidate: StoredResults,
+  thresholdPercent: number,
+): MetricComparison[] {
+  const candidateMetrics = new Map(
+    collectMetrics(candidate).map((m) => [metricKey(m), m]),
+  );
+  const comparisons: MetricComparison[] = [];
+
+  for (const base of collectMetrics(baseline)) {
+    const { value, ...id } = base;
+    const cand = candidateMetrics.get(metricKey(base));
+    candidateMetrics.delete(metricKey(base));
+
+    if (!cand) {
+      comparisons.push({ ...id, baseline: value, status: "missing" });
+      continue;
+    }
+
+    const change = relativeChange(value, cand.value, base.unit);
+    comparisons.push({
+      ...id,
+      baseline: value,
+      candidate: cand.value,
+      change,
+      status: change > thresholdPercent
+        ? "regression"
+        : change < -thresholdPercent ? "improvement" : "unchanged",
+    });
+  }
+
+  for (const { value, ...id } of candidateMetrics.values()) {
+    comparisons.push({ ...id, candidate: value, status: "new" });
+  }
+
+  return comparisons;
+}
+
+export interface MetricRow extends Omit<Metric, "value"> {
+  values: (number | undefined)[];  // One per run, undefined if the run lacks the metric
+}
+
+// Lines up the metrics of several runs, e.g. the images of a version matrix
+export function alignMetrics(runs: StoredResults[]): MetricRow[] {
+  const rows = new Map<string, MetricRow>();
+  runs.forEach((run, i) => {
+    for (const { value, ...id } of collectMetrics(run)) {
+      const key = metricKey(id);
+      if (!rows.has(key)) rows.set(key, { ...id, values: runs.map(() => undefined) });
+      rows.get(key)!.values[i] = value;
+    }
+  });
+  return [...rows.values()];
+}
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+export function formatValue(value: number | undefined, unit: Metric["unit"]): string {
+  if (value === undefined) return "-";
+  return unit === "ms" ? `${value.toFixed(2)}ms` : `${value.toFixed(1)} ${unit}`;
+}
+
+export function formatChange(change: number | undefined): string {
+  if (change === undefined) return "-";
+  return `${change > 0 ? "+" : ""}${change.toFixed(1)}%`;
+}
+
+// One testsuite per group and scale, one testcase per target and operation.
+// Regressions are failures, metrics missing on one side are skipped.
+export function toJUnitXml(
+  comparisons: MetricComparison[],
+  thresholdPercent: number,
+): string {
+  const suites = new Map<string, MetricComparison[]>();
+  for (const c of comparisons) {
+    const name = `${c.group} (scale ${c.scale})`;
+    suites.set(name, [...(suites.get(name) ?? []), c]);
+  }
+
+  const failures = (cases: MetricComparison[]) =>
+    cases.filter((c) => c.status === "regression").length;
+  const skipped = (cases: MetricComparison[]) =>
+    cases.filter((c) => c.status === "missing" || c.status === "new").length;
+
+  const lines = [
+    `<?xml version="1.0" encoding="UTF-8"?>`,
+    `<testsuites name="benchmark comparison" tests="${comparisons.length}" failures="${failures(comparisons)}">`,
+  ];
+
+  for (const [name, cases] of suites) {
+    lines.push(
+      `  <testsuite name="${escapeXml(name)}" tests="${cases.length}" failures="${failures(cases)}" skipped="${skipped(cases)}">`,
+    );
+    for (const c of cases) {
+      // JUnit times are seconds, only latencies have one
+      const time = c.unit === "ms" && c.candidate !== undefined
+        ? ` time="${(c.candidate / 1000).toFixed(6)}"`
+        : "";
+      const open = `    <testcase classname="${escapeXml(`${c.group}.${c.scale}.${c.target}`)}" name="${escapeXml(c.operation)}"${time}`;
+      const summary = `${formatValue(c.baseline, c.unit)} -> ${formatValue(c.candidate, c.unit)}`;
+
+      if (c.status === "regression") {
+        const message = `${summary} (${formatChange(c.change)}, threshold ${thresholdPercent}%)`;
+        lines.push(`${open}>`);
+        lines.push(`      <failure type="regression" message="${escapeXml(message)}"/>`);
+        lines.push(`    </testcase>`);
+      } else if (c.status === "missing" || c.status === "new") {
+        const message = c.status === "missing" ? "Not in the candidate run" : "Not in the baseline run";
+        lines.push(`${open}>`);
+        lines.push(`      <skipped message="${message}"/>`);
+        lines.push(`    </testcase>`);
+      } else {
+        lines.push(`${open}/>`);
+      }
+    }
+    lines.push(`  </testsuite>`);
+  }
+
+  lines.push(`</testsuites>`);
+  return lines.join("\n") + "\n";
+}
@@ -0,0 +1,78 @@
+import { performance } from "perf_hooks";
+import type { ContainerStats } from "./docker";
+import type { ResourceUsage } from "./types";
+
+// Memory is sampled this often while the monitored run goes on, CPU time is a
+// counter and only read before and after
+const SAMPLE_INTERVAL_MS = 250;
+
+// Collects the CPU time and memory of a database container over a monitored
+// run of an operation. Polling the Docker API competes with the database, so
+// the monitored runs are extra ones whose latency isn't recorded.
+export class ResourceMonitor {
+  private sample: () => Promise<ContainerStats | null>;
+  private cpuNs = 0;
+  private wallMs = 0;
+  private runs = 0;
+  private memory: number[] = [];
+  private started?: { cpuNs: number; at: number };
+  private poller?: ReturnType<typeof setInterval>;
+  private polls: Promise<void>[] = [];
+
+  constructor(sample: () => Promise<ContainerStats | null>) {
+    this.sample = sample;
+  }
+
+  // False when there is no container to sample, the run can be skipped
+  async before(): Promise<boolean> {
+    const stats = await this.sample();
+    if (!stats) return false;
+
+    this.memory.push(stats.memoryBytes);
+    this.started = { cpuNs: stats.cpuNs, at: performance.now() };
+    this.poller = setInterval(() => {
+      // A failed poll only loses a memory sample, the next one may succeed
+      this.polls.push(this.sample().then(
+        (polled) => { if (polled) this.memory.push(polled.memoryBytes); },
+        () => {},
+      ));
+    }, SAMPLE_INTERVAL_MS);
+    // A poller left behind mustn't keep the process alive
+    this.poller.unref();
+    return true;
+  }
+
+  // Called in a finally, so it doesn't throw and hide the error of the run
+  async after() {
+    const started = this.started;
+    if (!started) return;
+    const wallMs = performance.now() - started.at;
+    clearInterval(this.poller);
+    this.started = undefined;
+    await Promise.all(this.polls);
+    this.polls = [];
+
+    // Without the closing sample the run's CPU time is unknown and not counted
+    const stats = await this.sample().catch(() => null);
+    if (stats) {
+      this.cpuNs += stats.cpuNs - started.cpuNs;
+      this.wallMs += wallMs;
+      this.runs++;
+      this.memory.push(stats.memoryBytes);
+    }
+  }
+
+  // Null when the engine doesn't run in a container of this run
+  result(): ResourceUsage | null {
+    if (this.runs === 0) return null;
+
+    const cpuMs = this.cpuNs / 1e6;
+    return {
+      cpuMs: cpuMs / this.runs,
+      cpuPercent: this.wallMs > 0 ? (cpuMs / this.wallMs) * 100 : 0,
+      memoryPeakBytes: Math.max(...this.memory),
+      memoryMeanBytes: this.memory.reduce((sum, bytes) => sum + bytes, 0) / this.memory.length,
+      samples: this.memory.length,
+    };
+  }
+}
@@ -0,0 +1,49 @@
+import type { SearchOperation, SearchQuery, TestData } from "./types";
+
+export const SEARCH_OPERATIONS: SearchOperation[] = ["singleTerm", "multiTerm", "phrase"];
+
+// Shorter words include English stop words, which the tsvector and text
+// indexes leave out
+const MIN_WORD_LENGTH = 5;
+
+const words = (text: string) =>
+  (text.toLowerCase().match(/[a-z]+/g) ?? []).filter((word) => word.length >= MIN_WORD_LENGTH);
+
+// First two adjacent words of the text without punctuation in between
+function firstPhrase(text: string): string[] {
+  const tokens = text.toLowerCase().split(/\s+/);
+  for (let i = 0; i + 1 < tokens.length; i++) {
+    const [first, second] = [tokens[i], tokens[i + 1].replace(/[^a-z]+$/, "")];
+    if (/^[a-z]+$/.test(first) && /^[a-z]+$/.test(second) &&
+      first.length >= MIN_WORD_LENGTH && second.length >= MIN_WORD_LENGTH) {
+      return [first, second];
+    }
+  }
+  return words(text).slice(0, 2);
+}
+
+// Picks the queries from the generated posts, so they match at every scale:
+// the word in the median number of posts, and the first three words and a
+// phrase of the middle post
+export function searchQueries(data: TestData): Record<SearchOperation, SearchQuery> {
+  const frequency = new Map<string, number>();
+  for (const post of data.posts) {
+    for (const word of new Set(words(`${post.title} ${post.body}`))) {
+      frequency.set(word, (frequency.get(word) ?? 0) + 1);
+    }
+  }
+
+  // Ties in alphabetical order, so the same data gives the same queries
+  const ranked = [...frequency]
+    .sort(([a, x], [b, y]) => x - y || a.localeCompare(b))
+    .map(([word]) => word);
+  const median = Math.floor(ranked.length / 2);
+
+  const middle = data.posts[Math.floor(data.posts.length / 2)];
+  const middleWords = [...new Set(words(`${middle.title} ${middle.body}`))];
+  return {
+    singleTerm: { terms: [ranked[median]], phrase: false },
+    multiTerm: { terms: middleWords.slice(0, 3), phrase: false },
+    phrase: { terms: firstPhrase(middle.body), phrase: true },
+  };
+}
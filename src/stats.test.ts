@@ -0,0 +1,52 @@
+import { describe, expect, test } from "bun:test";
+import { formatBytes, formatStats, storedMedian, summarize } from "./stats";
+
+describe("summarize", () => {
+  test("computes the order statistics of unsorted samples", () => {
+    const stats = summarize([5, 1, 4, 2, 3]);
+    expect(stats).toMatchObject({ iterations: 5, min: 1, max: 5, mean: 3, median: 3 });
+  });
+
+  test("interpolates percentiles between the closest ranks", () => {
+    const stats = summarize([10, 20, 30, 40]);
+    expect(stats.median).toBe(25);
+    expect(stats.p95).toBeCloseTo(38.5);
+    expect(stats.p99).toBeCloseTo(39.7);
+  });
+
+  test("uses the sample standard deviation", () => {
+    expect(summarize([2, 4, 4, 4, 5, 5, 7, 9]).stdDev).toBeCloseTo(Math.sqrt(32 / 7));
+  });
+
+  test("reports a single measurement without spread", () => {
+    expect(summarize([7])).toMatchObject({ median: 7, p95: 7, p99: 7, stdDev: 0 });
+  });
+
+  test("keeps the samples in measurement order", () => {
+    const samples = [3, 1, 2];
+    expect(summarize(samples).samples).toEqual([3, 1, 2]);
+    expect(samples).toEqual([3, 1, 2]);
+  });
+
+  test("rejects an empty sample set", () => {
+    expect(() => summarize([])).toThrow("empty sample set");
+  });
+});
+
+describe("formatting", () => {
+  test("formatStats shows the median and standard deviation", () => {
+    expect(formatStats(summarize([1, 2, 3]))).toBe("2.00ms ± 1.00");
+  });
+
+  test("storedMedian reads old single durations and new stats", () => {
+    expect(storedMedian(12)).toBe(12);
+    expect(storedMedian(summarize([1, 2, 9]))).toBe(2);
+  });
+
+  test("formatBytes picks the largest unit below 1024", () => {
+    expect(formatBytes(512)).toBe("512 B");
+    expect(formatBytes(1536)).toBe("1.5 KB");
+    expect(formatBytes(5 * 1024 ** 3)).toBe("5.0 GB");
+    expect(formatBytes(2048 * 1024 ** 3)).toBe("2048.0 GB");
+  });
+});
@@ -0,0 +1,58 @@
+import type { LatencyStats } from "./types";
+
+// Linear interpolation between the closest ranks of an already sorted array
+function percentile(sorted: number[], p: number): number {
+  if (sorted.length === 1) return sorted[0];
+
+  const rank = (p / 100) * (sorted.length - 1);
+  const lower = Math.floor(rank);
+  const upper = Math.ceil(rank);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (rank - lower);
+}
+
+export function summarize(samples: number[]): LatencyStats {
+  if (samples.length === 0) {
+    throw new Error("Cannot summarize an empty sample set");
+  }
+
+  const sorted = [...samples].sort((a, b) => a - b);
+  const mean = samples.reduce((sum, s) => sum + s, 0) / samples.length;
+  // Sample standard deviation, 0 for a single measurement
+  const variance = samples.length > 1
+    ? samples.reduce((sum, s) => sum + (s - mean) ** 2, 0) /
+      (samples.length - 1)
+    : 0;
+
+  return {
+    iterations: samples.length,
+    min: sorted[0],
+    max: sorted[sorted.length - 1],
+    mean,
+    median: percentile(sorted, 50),
+    p95: percentile(sorted, 95),
+    p99: percentile(sorted, 99),
+    stdDev: Math.sqrt(variance),
+    samples,
+  };
+}
+
+export function formatStats(stats: Omit<LatencyStats, "samples">): string {
+  return `${stats.median.toFixed(2)}ms ± ${stats.stdDev.toFixed(2)}`;
+}
+
+// Results files written before the repeated measurements stored a single
+// duration per operation instead of the stats
+export function storedMedian(stats: Omit<LatencyStats, "samples"> | number): number {
+  return typeof stats === "number" ? stats : stats.median;
+}
+
+export function formatBytes(bytes: number): string {
+  const units = ["B", "KB", "MB", "GB"];
+  let value = bytes;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  return `${value.toFixed(unit === 0 ? 0 : 1)} ${units[unit]}`;
+}
@@ -0,0 +1,100 @@
+import { existsSync, readFileSync } from "fs";
+import type { Suite } from "./types";
+
+export const DEFAULT_TARGETS_FILE = "targets.json";
+
+const TARGET_ENGINES = ["postgres", "mongo"] as const;
+const TARGET_SUITES: Suite[] = ["basic", "relational", "indexed"];
+
+// A database the runner doesn't start itself, e.g. a managed cloud instance
+// or a server of the LAN. Every enabled suite becomes a variant of its own.
+export interface TargetConfig {
+  name: string;     // Prefix of the variant keys, e.g. atlas gives atlasBasic
+  engine: (typeof TARGET_ENGINES)[number];
+  url: string;
+  label: string;    // Prefix of the variant labels, e.g. "Mongo Atlas"
+  suites: Suite[];
+}
+
+export class TargetConfigError extends Error {
+  constructor(path: string, message: string) {
+    super(`${path}: ${message}`);
+    this.name = "TargetConfigError";
+  }
+}
+
+// ${NAME} in a URL is the environment variable NAME, keeps credentials out of
+// the file
+function expandEnv(url: string): { url: string; missing: string[] } {
+  const missing: string[] = [];
+  const expanded = url.replace(/\$\{(\w+)\}/g, (_, name: string) => {
+    const value = process.env[name];
+    if (value === undefined) missing.push(name);
+    return value ?? "";
+  });
+  return { url: expanded, missing };
+}
+
+function parseTarget(path: string, raw: unknown, i: number): TargetConfig {
+  const fail = (message: string) => {
+    throw new TargetConfigError(path, `targets[${i}] ${message}`);
+  };
+  if (typeof raw !== "object" || raw === null) fail("must be an object");
+
+  const { name, engine, url, label, suites = TARGET_SUITES } = raw as Record<string, unknown>;
+  if (typeof name !== "string" || !/^[a-z][a-zA-Z0-9]*$/.test(name)) {
+    fail(`needs a camelCase "name", got ${JSON.stringify(name)}`);
+  }
+  if (!TARGET_ENGINES.includes(engine as TargetConfig["engine"])) {
+    fail(`"engine" must be one of ${TARGET_ENGINES.join(", ")}, got ${JSON.stringify(engine)}`);
+  }
+  if (typeof url !== "string" || url === "") fail(`needs a "url"`);
+  if (
+    !Array.isArray(suites) || suites.length === 0 ||
+    !suites.every((suite) => TARGET_SUITES.includes(suite))
+  ) {
+    fail(`"suites" must list some of ${TARGET_SUITES.join(", ")}`);
+  }
+
+  return {
+    name: name as string,
+    engine: engine as TargetConfig["engine"],
+    url: url as string,
+    label: typeof label === "string" ? label : name as string,
+    suites: [...new Set(suites as Suite[])],
+  };
+}
+
+// The targets of the file, nothing if the default file doesn't exist. Targets
+// whose URL needs an unset environment variable are skipped with a warning.
+export function loadTargets(path: string, required: boolean): TargetConfig[] {
+  if (!existsSync(path)) {
+    if (required) throw new TargetConfigError(path, "file not found");
+    return [];
+  }
+
+  let config: unknown;
+  try {
+    config = JSON.parse(readFileSync(path, "utf8"));
+  } catch (error) {
+    throw new TargetConfigError(path, (error as Error).message);
+  }
+  const targets = (config as { targets?: unknown } | null)?.targets;
+  if (!Array.isArray(targets)) {
+    throw new TargetConfigError(path, `needs a "targets" array`);
+  }
+
+  const parsed = targets.map((raw, i) => parseTarget(path, raw, i));
+  const names = parsed.map((target) => target.name);
+  const duplicate = names.find((name, i) => names.indexOf(name) !== i);
+  if (duplicate) throw new TargetConfigError(path, `target "${duplicate}" is listed twice`);
+
+  return parsed.flatMap((target) => {
+    const { url, missing } = expandEnv(target.url);
+    if (missing.length > 0) {
+      console.warn(`[WARN] Skipping target ${target.name}, unset environment variables: ${missing.join(", ")}`);
+      return [];
+    }
+    return [{ ...target, url }];
+  });
+}
@@ -1,67 +1,628 @@
-import { cleanUpDocker, setupDocker } from './docker';
-import { PerformanceTest } from './performance-test';
+import { cleanUpDocker, DockerError, setupDocker, type ContainerEngine } from './docker';
+import {
+  AGGREGATION_OPERATIONS,
+  GRAPH_OPERATIONS,
+  PAGINATION_OPERATIONS,
+  PerformanceTest,
+  SEEDING_TABLES
+} from './performance-test';
+import { createAdapters, DEFAULT_MONGODB_URL, ENGINE_LABELS } from './adapters';
+import { formatNetwork, formatPlan, parseCliArgs, proxiedAdapters, UsageError, USAGE, type RunPlan } from './cli';
+import { fitResults, formatFits, MIN_FIT_SCALES } from './complexity';
+import { proxyDatabases } from './proxy';
+import { SEARCH_OPERATIONS } from './search';
+import { formatBytes, formatStats } from './stats';
+import { TRANSACTION_OPERATIONS } from './transactions';
+import { WORKLOAD_OPERATIONS } from './workload';
 import { writeFileSync } from 'fs';
 import Table from 'cli-table3';
+import { collectMetadata, createRunId, networkRunId, saveRun } from './history';
+import { alignMetrics, formatChange, formatValue, relativeChange } from './regression';
+import type {
+  ContainerImage,
+  Engine,
+  GraphResults,
+  LatencyStats,
+  MatrixEntry,
+  NetworkEntry,
+  PaginationResults,
+  QueryPlan,
+  QueryPlans,
+  SearchResults,
+  SeedingResults,
+  SeedingTableResult,
+  StoredResults,
+  ThroughputResults,
+  TransactionResults,
+  WorkloadResults
+} from './types';
 
 
-async function runAllTests() {
-  console.log('[DEBUG] Setting up test environment...');
-  
-  try {
-    const tester = new PerformanceTest();
-    await tester.connect();
+// One column per engine or target, used by the aggregation and graph sections
+function printEngineTable<Op extends string>(
+  title: string,
+  operations: readonly Op[],
+  results: Record<string, Record<Op, LatencyStats>>
+) {
+  const engines = Object.keys(results);
+  const table = new Table({
+    head: ['Operation (median ± std dev)', ...engines.map(engine => ENGINE_LABELS[engine as Engine] ?? engine)],
+    style: {
+      head: ['cyan'],
+      border: ['gray']
+    }
+  });
 
-    const scales = [100, 1000] as const;  // 30000
-    const results: Record<number, any> = {};
+  operations.forEach(op => {
+    table.push([
+      op,
+      ...engines.map(engine => formatStats(results[engine]![op]))
+    ]);
+  });
 
-    // Run scale tests
-    for (const scale of scales) {
-      console.log(`\n[INFO] Running tests with scale: ${scale}`);
-      results[scale] = await tester.runTests(scale);
-      console.log(`[DEBUG] Finished scale ${scale}`);
-    }
+  console.log(`\n=== ${title} ===`);
+  console.log(table.toString());
+}
 
-    // Run aggregation tests at scale 1000
-    console.log('\n[INFO] Running aggregation tests...');
-    const aggResults = await tester.runAggregationTests();
-    
-    // Format aggregation results
-    const aggTable = new Table({
-      head: ['Operation', 'Postgres', 'MongoDB'],
+// One table per variant, one row per concurrency level
+function printThroughputTables(
+  variants: Record<string, string>,
+  results: ThroughputResults
+) {
+  for (const [key, runs] of Object.entries(results)) {
+    const table = new Table({
+      head: ['Concurrency', 'ops/s', 'p50', 'p95', 'p99', 'Errors'],
       style: {
         head: ['cyan'],
         border: ['gray']
       }
     });
 
-    Object.keys(aggResults.postgres).forEach(op => {
-      aggTable.push([
-        op,
-        `${(aggResults as any).postgres[op].toFixed(2)}ms`,
-        `${(aggResults as any).mongo[op].toFixed(2)}ms`
+    runs.forEach(run => {
+      table.push([
+        run.concurrency,
+        run.opsPerSecond.toFixed(1),
+        ...(run.latency
+          ? [run.latency.median, run.latency.p95, run.latency.p99].map(ms => `${ms.toFixed(2)}ms`)
+          : ['-', '-', '-']),
+        run.errors
       ]);
     });
 
-    console.log('\n=== Aggregation Tests Results (Scale: 1000) ===');
-    console.log(aggTable.toString());
+    console.log(`\n${variants[key]}`);
+    console.log(table.toString());
+  }
+}
+
+// One column per engine, one row per operation type that occurred plus the overall throughput
+function printWorkloadTable(title: string, results: WorkloadResults) {
+  const engines = Object.keys(results);
+  const table = new Table({
+    head: ['Operation (median ± std dev)', ...engines.map(engine => ENGINE_LABELS[engine as Engine] ?? engine)],
+    style: {
+      head: ['cyan'],
+      border: ['gray']
+    }
+  });
+
+  WORKLOAD_OPERATIONS.forEach(op => {
+    if (!engines.some(engine => results[engine]!.operations[op])) return;
+    table.push([
+      op,
+      ...engines.map(engine => {
+        const stats = results[engine]!.operations[op];
+        return stats ? `${formatStats(stats)} (${stats.iterations}x)` : '-';
+      })
+    ]);
+  });
+  table.push([
+    'Throughput',
+    ...engines.map(engine => `${results[engine]!.opsPerSecond.toFixed(1)} ops/s`)
+  ]);
+
+  console.log(`\n=== ${title} ===`);
+  console.log(table.toString());
+}
+
+// One column per engine with and without the feed index
+function printPaginationTable(scale: number, results: PaginationResults) {
+  const keys = Object.keys(results);
+  const label = (key: string) => {
+    const [engine, variant] = key.split('-');
+    return `${ENGINE_LABELS[engine as Engine] ?? engine} ${variant}`;
+  };
+
+  const table = new Table({
+    head: ['Operation (median ± std dev)', ...keys.map(label)],
+    style: {
+      head: ['cyan'],
+      border: ['gray']
+    }
+  });
+  PAGINATION_OPERATIONS.forEach(op => {
+    table.push([op, ...keys.map(key => formatStats(results[key][op]))]);
+  });
+
+  console.log(`\n=== Pagination Tests Results (Scale: ${scale}) ===`);
+  console.log(table.toString());
+}
+
+// One column per engine and search method, the index build above the searches
+function printSearchTable(scale: number, results: SearchResults) {
+  const keys = Object.keys(results);
+  const label = (key: string) => {
+    const [engine, method] = key.split('-');
+    return `${ENGINE_LABELS[engine as Engine] ?? engine} ${method}`;
+  };
+
+  const table = new Table({
+    head: ['Operation (median ± std dev)', ...keys.map(label)],
+    style: {
+      head: ['cyan'],
+      border: ['gray']
+    }
+  });
+  table.push(['index build', ...keys.map(key => results[key].build ? formatStats(results[key].build) : '-')]);
+  table.push([
+    'index size',
+    ...keys.map(key => results[key].sizeBytes === null ? '-' : formatBytes(results[key].sizeBytes))
+  ]);
+  SEARCH_OPERATIONS.forEach(op => {
+    table.push([op, ...keys.map(key => formatStats(results[key].operations[op]))]);
+  });
+
+  console.log(`\n=== Search Tests Results (Scale: ${scale}) ===`);
+  console.log(table.toString());
+}
+
+// One column per engine, rows per second of every table and of the whole load
+function printSeedingTable(scale: number, results: SeedingResults) {
+  const engines = Object.keys(results);
+  const rate = (result: SeedingTableResult) =>
+    `${result.rows} rows, ${result.rowsPerSecond.toFixed(0)} rows/s`;
+
+  const table = new Table({
+    head: ['Table', ...engines.map(engine => ENGINE_LABELS[engine as Engine] ?? engine)],
+    style: {
+      head: ['cyan'],
+      border: ['gray']
+    }
+  });
+  SEEDING_TABLES.forEach(name => {
+    table.push([name, ...engines.map(engine => rate(results[engine]!.tables[name]))]);
+  });
+  table.push(['total', ...engines.map(engine => rate(results[engine]!.total))]);
+  table.push(['batches', ...engines.map(engine => `${results[engine]!.batches} of ${results[engine]!.batchSize}`)]);
+  table.push(['peak heap', ...engines.map(engine => formatBytes(results[engine]!.peakHeapBytes))]);
+
+  console.log(`\n=== Seeding Tests Results (Scale: ${scale}) ===`);
+  console.log(table.toString());
+}
+
+// One column per engine and transaction mode, followed by the contention runs
+function printTransactionTables(scale: number, results: TransactionResults) {
+  const keys = Object.keys(results);
+  const label = (key: string) => {
+    const [engine, mode] = key.split('-');
+    return `${ENGINE_LABELS[engine as Engine] ?? engine} ${mode}`;
+  };
+
+  const table = new Table({
+    head: ['Operation (median ± std dev)', ...keys.map(label)],
+    style: {
+      head: ['cyan'],
+      border: ['gray']
+    }
+  });
+  TRANSACTION_OPERATIONS.forEach(op => {
+    table.push([op, ...keys.map(key => formatStats(results[key].operations[op]))]);
+  });
+
+  const contention = new Table({
+    head: ['Variant', 'Operation', 'Writers', 'Committed', 'Failed', 'Retries', 'ops/s', 'Consistent'],
+    style: {
+      head: ['cyan'],
+      border: ['gray']
+    }
+  });
+  keys.forEach(key => {
+    results[key].contention.forEach(run => {
+      contention.push([
+        label(key),
+        run.operation,
+        run.writers,
+        `${run.committed}/${run.operations}`,
+        run.failed,
+        run.retries,
+        run.opsPerSecond.toFixed(1),
+        run.consistent === null ? '-' : run.consistent ? 'yes' : 'NO'
+      ]);
+    });
+  });
+
+  console.log(`\n=== Transaction Tests Results (Scale: ${scale}) ===`);
+  console.log(table.toString());
+  console.log(contention.toString());
+}
+
+// Full scans versus index usage of every query an operation sends
+function describePlans(plans: QueryPlan[] | undefined) {
+  if (!plans) return '-';
+  const scans = [...new Set(plans.flatMap(plan => plan.sequentialScans))];
+  const indexes = [...new Set(plans.flatMap(plan => plan.indexes))];
+  const lines = [
+    ...(scans.length > 0 ? [`Full scan: ${scans.join(', ')}`] : []),
+    ...(indexes.length > 0 ? [`Index: ${indexes.join(', ')}`] : [])
+  ];
+  return lines.length > 0 ? lines.join('\n') : 'No table access';
+}
+
+// One table per scale, one column per variant that supports plans
+function printQueryPlanTables(variants: Record<string, string>, queryPlans: QueryPlans) {
+  for (const [scale, byVariant] of Object.entries(queryPlans)) {
+    const keys = Object.keys(byVariant);
+    const operations = [...new Set(keys.flatMap(key => Object.keys(byVariant[key])))];
+    const table = new Table({
+      head: ['Operation', ...keys.map(key => variants[key] ?? key)],
+      style: {
+        head: ['cyan'],
+        border: ['gray']
+      }
+    });
+
+    operations.forEach(op => {
+      table.push([op, ...keys.map(key => describePlans(byVariant[key][op]))]);
+    });
+
+    console.log(`\n=== Query Plans (Scale: ${scale}) ===`);
+    console.log(table.toString());
+  }
+}
+
+async function runAllTests(plan: RunPlan, images: ContainerImage[] = []): Promise<StoredResults> {
+  console.log('[DEBUG] Setting up test environment...');
+  const startedAt = new Date();
+  const runId = createRunId(startedAt);
+
+  try {
+    const tester = new PerformanceTest(plan.adapters, plan.measure, plan.seed);
+    await tester.connect(plan.connect);
+
+    const results: Record<number, any> = {};
+    const throughputResults: Record<number, ThroughputResults> = {};
+    const workloadResults: Record<number, WorkloadResults> = {};
+
+    if (plan.workload) {
+      const { preset, spec, operationCount } = plan.workload;
+      for (const scale of plan.scales) {
+        console.log(`\n[INFO] Running ${preset} workload with scale: ${scale}`);
+        workloadResults[scale] = await tester.runWorkloadTests(scale, spec, operationCount);
+        printWorkloadTable(
+          `Workload ${preset} Results (Scale: ${scale})`,
+          workloadResults[scale]
+        );
+      }
+    } else if (plan.throughput) {
+      const { operation, concurrency, durationMs } = plan.throughput;
+      for (const scale of plan.scales) {
+        console.log(`\n[INFO] Running ${operation} throughput tests with scale: ${scale}`);
+        throughputResults[scale] = await tester.runThroughputTests(
+          scale,
+          operation,
+          concurrency,
+          durationMs
+        );
+        console.log(`\n=== Throughput of ${operation} (Scale: ${scale}) ===`);
+        printThroughputTables(tester.variants, throughputResults[scale]);
+      }
+    } else if (plan.suites.length > 0) {
+      // Run scale tests
+      for (const scale of plan.scales) {
+        console.log(`\n[INFO] Running tests with scale: ${scale}`);
+        results[scale] = await tester.runTests(scale, plan.suites);
+        console.log(`[DEBUG] Finished scale ${scale}`);
+      }
+    }
+
+    let aggResults = {};
+    if (plan.aggregation) {
+      console.log('\n[INFO] Running aggregation tests...');
+      aggResults = await tester.runAggregationTests(plan.aggregationScale);
+      printEngineTable(
+        `Aggregation Tests Results (Scale: ${plan.aggregationScale})`,
+        AGGREGATION_OPERATIONS,
+        aggResults
+      );
+    }
+
+    const graphResults: Record<number, GraphResults> = {};
+    if (plan.graph) {
+      for (const scale of plan.scales) {
+        console.log(`\n[INFO] Running social graph tests with scale: ${scale}`);
+        graphResults[scale] = await tester.runGraphTests(scale);
+        printEngineTable(
+          `Social Graph Tests Results (Scale: ${scale})`,
+          GRAPH_OPERATIONS,
+          graphResults[scale]
+        );
+      }
+    }
+
+    const paginationResults: Record<number, PaginationResults> = {};
+    if (plan.pagination) {
+      for (const scale of plan.scales) {
+        console.log(`\n[INFO] Running pagination tests with scale: ${scale}`);
+        paginationResults[scale] = await tester.runPaginationTests(scale);
+        printPaginationTable(scale, paginationResults[scale]);
+      }
+    }
+
+    const searchResults: Record<number, SearchResults> = {};
+    if (plan.search) {
+      for (const scale of plan.scales) {
+        console.log(`\n[INFO] Running search tests with scale: ${scale}`);
+        searchResults[scale] = await tester.runSearchTests(scale);
+        printSearchTable(scale, searchResults[scale]);
+      }
+    }
+
+    const seedingResults: Record<number, SeedingResults> = {};
+    if (plan.seeding) {
+      for (const scale of plan.scales) {
+        console.log(`\n[INFO] Running seeding tests with scale: ${scale}`);
+        seedingResults[scale] = await tester.runSeedingTests(scale, plan.batchSize);
+        printSeedingTable(scale, seedingResults[scale]);
+      }
+    }
+
+    const transactionResults: Record<number, TransactionResults> = {};
+    if (plan.transaction) {
+      for (const scale of plan.scales) {
+        console.log(`\n[INFO] Running transaction tests with scale: ${scale}`);
+        transactionResults[scale] = await tester.runTransactionTests(scale, plan.writers);
+        printTransactionTables(scale, transactionResults[scale]);
+      }
+    }
+
+    if (plan.measure.explain) {
+      printQueryPlanTables(tester.variants, tester.queryPlans);
+    }
 
     // Save all results
-    const fullResults = {
+    const fullResults: StoredResults = {
+      run: collectMetadata(runId, startedAt, process.argv.slice(2)),
+      ...(images.length > 0 && { images }),
+      seed: plan.seed ?? null,
+      datasets: tester.datasets,
+      variants: tester.variants,
       scaleTests: results,
-      aggregationTests: aggResults
+      ...(plan.aggregation && { aggregationScale: plan.aggregationScale }),
+      aggregationTests: aggResults,
+      graphTests: graphResults,
+      ...(plan.pagination && { paginationTests: paginationResults }),
+      ...(plan.search && { searchQueries: tester.searchQueries, searchTests: searchResults }),
+      ...(plan.seeding && { seedingTests: seedingResults }),
+      ...(plan.throughput && {
+        throughputOperation: plan.throughput.operation,
+        throughputTests: throughputResults
+      }),
+      ...(plan.workload && {
+        workload: { preset: plan.workload.preset, ...plan.workload.spec },
+        workloadTests: workloadResults
+      }),
+      ...(Object.keys(tester.indexes).length > 0 && { indexTests: tester.indexes }),
+      ...(Object.keys(tester.maintenance).length > 0 && { maintenanceTests: tester.maintenance }),
+      ...(Object.keys(tester.resources).length > 0 && { resourceTests: tester.resources }),
+      ...(Object.keys(tester.storage).length > 0 && { storageTests: tester.storage }),
+      ...(Object.keys(tester.verification).length > 0 && { verification: tester.verification }),
+      ...(plan.measure.explain && { queryPlans: tester.queryPlans }),
+      ...(plan.transaction && { transactionTests: transactionResults })
     };
     
-    writeFileSync('test-results.json', JSON.stringify(fullResults, null, 2));
-    
+    // One order of magnitude beyond the largest scale, src/fit.ts projects
+    // stored runs to any scale
+    if (plan.scales.length >= MIN_FIT_SCALES) {
+      const targetScale = Math.max(...plan.scales) * 10;
+      console.log(`\n=== Complexity (latency over scale, projected to scale ${targetScale}) ===`);
+      console.log(formatFits(fitResults(fullResults, targetScale), targetScale));
+    }
+
     console.log('[DEBUG] Disconnecting...');
     await tester.disconnect();
+    return fullResults;
   } catch (error) {
     console.error('[ERROR] Test execution failed:', error);
     throw error;
   }
 }
 
+function storeRun(plan: RunPlan, results: StoredResults) {
+  if (!plan.history) return;
+  const runId = results.run!.runId;
+  console.log(`[INFO] Run ${runId} stored in ${saveRun(plan.history, runId, results)}`);
+}
+
+// Rows are metrics, columns are images, every image is compared to the first one
+function printMatrixTable(engine: Engine, entries: MatrixEntry[]) {
+  const table = new Table({
+    head: ['Metric', ...entries.map(e => e.image)],
+    style: {
+      head: ['cyan'],
+      border: ['gray']
+    }
+  });
+
+  alignMetrics(entries.map(e => e.results)).forEach(row => {
+    const [first, ...rest] = row.values;
+    table.push([
+      `${row.group} ${row.scale} ${row.target} ${row.operation}`,
+      formatValue(first, row.unit),
+      ...rest.map(value => value === undefined || first === undefined
+        ? formatValue(value, row.unit)
+        : `${formatValue(value, row.unit)} (${formatChange(relativeChange(first, value, row.unit))})`)
+    ]);
+  });
+
+  console.log(`\n=== ${ENGINE_LABELS[engine]} versions (change vs ${entries[0].image}, positive is slower) ===`);
+  entries.forEach(e => console.log(`${e.image}: ${e.digest}`));
+  console.log(table.toString());
+}
+
+// Every image is a separate run of the adapters of its engine, in its own container
+async function runMatrix(plan: RunPlan) {
+  const entries: MatrixEntry[] = [];
+
+  for (const [engine, images] of Object.entries(plan.matrix!) as [ContainerEngine, string[]][]) {
+    const enginePlan = { ...plan, adapters: plan.adapters.filter(a => a.engine === engine && !a.target) };
+
+    for (const image of images) {
+      console.log(`\n[INFO] Running ${ENGINE_LABELS[engine]} on ${image}`);
+      try {
+        const used = await setupDocker([engine], {
+          reuse: plan.reuseContainers,
+          images: { [engine]: image }
+        });
+        const results = await runAllTests(enginePlan, used);
+        storeRun(plan, results);
+        entries.push({ ...used[0], runId: results.run!.runId, results });
+      } catch (error) {
+        // A broken image shouldn't cost the results of the others
+        if (error instanceof DockerError) console.error(`[ERROR] ${error.message}`);
+        console.error(`[ERROR] ${image} failed, continuing with the next image`);
+        process.exitCode = 1;
+      } finally {
+        await cleanUpDocker();
+      }
+    }
+
+    const engineEntries = entries.filter(e => e.engine === engine);
+    if (engineEntries.length > 0) printMatrixTable(engine, engineEntries);
+  }
+
+  writeFileSync(plan.output, JSON.stringify({ matrix: entries }, null, 2));
+  console.log(`[INFO] Matrix results written to ${plan.output}`);
+}
+
+// Rows are metrics, columns are the network profiles. The latency a profile
+// adds over the direct run divided by its round trip time estimates the
+// round trips of an operation.
+function printNetworkTable(entries: NetworkEntry[]) {
+  const table = new Table({
+    head: ['Metric', ...entries.map(e => e.profile)],
+    style: {
+      head: ['cyan'],
+      border: ['gray']
+    }
+  });
+
+  alignMetrics(entries.map(e => e.results)).forEach(row => {
+    const [direct, ...rest] = row.values;
+    table.push([
+      `${row.group} ${row.scale} ${row.target} ${row.operation}`,
+      formatValue(direct, row.unit),
+      ...rest.map((value, i) => {
+        const { network } = entries[i + 1];
+        if (value === undefined || direct === undefined || row.unit !== 'ms' || !network?.rttMs) {
+          return formatValue(value, row.unit);
+        }
+        const added = value - direct;
+        return `${formatValue(value, row.unit)} (${added >= 0 ? '+' : ''}${added.toFixed(1)}ms, ~${Math.max(0, added / network.rttMs).toFixed(1)} RTT)`;
+      })
+    ]);
+  });
+
+  console.log('\n=== Network profiles (added latency vs direct and the round trips it amounts to) ===');
+  entries.forEach(e => console.log(`${e.profile}: ${e.network ? formatNetwork(e.network) : 'no proxy'}`));
+  console.log(table.toString());
+}
+
+// A direct run, then one run per profile with proxies in front of the Postgres
+// and MongoDB databases. The adapters read their URLs on connect.
+async function runNetworkProfiles(plan: RunPlan, images: ContainerImage[]) {
+  // Anything else would run unproxied and pass for a profile's numbers
+  const adapters = proxiedAdapters(plan.adapters);
+  const urls: Record<string, string> = {
+    ...(adapters.some(a => a.engine === 'postgres') && { DATABASE_URL: process.env.DATABASE_URL! }),
+    ...(adapters.some(a => a.engine === 'mongo') && {
+      MONGODB_URL: process.env.MONGODB_URL || DEFAULT_MONGODB_URL
+    })
+  };
+  // Every run gets the same data, the profiles are the only difference
+  const seeded = { ...plan, adapters, seed: plan.seed ?? Math.floor(Math.random() * 2 ** 31) };
+  const entries: NetworkEntry[] = [];
+
+  console.log('\n[INFO] Running without network emulation');
+  const direct = await runAllTests(seeded, images);
+  storeRun(plan, direct);
+  entries.push({ profile: 'direct', network: null, runId: direct.run!.runId, results: direct });
+
+  for (const [profile, network] of Object.entries(plan.network!)) {
+    console.log(`\n[INFO] Running through the ${profile} network (${formatNetwork(network)})`);
+    const restore = await proxyDatabases(urls, network);
+    try {
+      const results = await runAllTests(seeded, images);
+      results.network = { profile, ...network };
+      results.run!.runId = networkRunId(results.run!.runId, profile);
+      storeRun(plan, results);
+      entries.push({ profile, network, runId: results.run!.runId, results });
+    } finally {
+      await restore();
+    }
+  }
+
+  printNetworkTable(entries);
+  writeFileSync(plan.output, JSON.stringify({ network: entries }, null, 2));
+  console.log(`[INFO] Network results written to ${plan.output}`);
+}
+
+function parsePlan(): RunPlan {
+  try {
+    return parseCliArgs(process.argv.slice(2), createAdapters());
+  } catch (error) {
+    if (!(error instanceof UsageError)) throw error;
+
+    console.error(`[ERROR] ${error.message}\n`);
+    console.error(USAGE);
+    process.exit(2);
+  }
+}
+
 // Main execution
-await setupDocker().catch(console.error);
-await runAllTests().catch(console.error);
-await cleanUpDocker().catch(console.error);
\ No newline at end of file
+const plan = parsePlan();
+
+if (plan.help) {
+  console.log(USAGE);
+} else if (plan.dryRun) {
+  console.log(formatPlan(plan));
+} else if (plan.matrix) {
+  await runMatrix(plan).catch(error => {
+    console.error('[ERROR] Matrix run failed:', error);
+    process.exitCode = 1;
+  });
+} else {
+  try {
+    const images = plan.docker
+      ? await setupDocker(plan.adapters.filter(a => !a.target).map(a => a.engine), { reuse: plan.reuseContainers })
+      : [];
+    if (plan.network) {
+      await runNetworkProfiles(plan, images);
+    } else {
+      const results = await runAllTests(plan, images);
+
+      writeFileSync(plan.output, JSON.stringify(results, null, 2));
+      console.log(`[INFO] Results written to ${plan.output}`);
+      storeRun(plan, results);
+    }
+  } catch (error) {
+    // runAllTests logs its own errors
+    if (error instanceof DockerError) console.error(`[ERROR] ${error.message}`);
+    process.exitCode = 1;
+  } finally {
+    if (plan.docker) {
+      await cleanUpDocker().catch(error => {
+        console.error('[ERROR] Cleanup failed:', error);
+        process.exitCode = 1;
+      });
+    }
+  }
+}
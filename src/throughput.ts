@@ -0,0 +1,48 @@
+import { performance } from "perf_hooks";
+import type { ThroughputResult } from "./types";
+import { summarize } from "./stats";
+
+// Runs fn from `concurrency` workers until the duration is over. Every worker
+// starts its next call as soon as the previous one returned (closed loop).
+export async function runThroughput(
+  fn: () => Promise<unknown>,
+  concurrency: number,
+  durationMs: number,
+): Promise<ThroughputResult> {
+  const latencies: number[] = [];
+  let errors = 0;
+
+  const start = performance.now();
+  const deadline = start + durationMs;
+
+  const worker = async () => {
+    while (performance.now() < deadline) {
+      const callStart = performance.now();
+      try {
+        await fn();
+        latencies.push(performance.now() - callStart);
+      } catch {
+        errors++;
+      }
+    }
+  };
+
+  await Promise.all(Array.from({ length: concurrency }, worker));
+  const elapsed = performance.now() - start;
+
+  let latency = null;
+  if (latencies.length > 0) {
+    // The raw samples would bloat the results file, the summary is enough
+    const { samples, ...stats } = summarize(latencies);
+    latency = stats;
+  }
+
+  return {
+    concurrency,
+    durationMs: elapsed,
+    operations: latencies.length,
+    errors,
+    opsPerSecond: latencies.length / (elapsed / 1000),
+    latency,
+  };
+}
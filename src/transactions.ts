@@ -0,0 +1,70 @@
+import { performance } from "perf_hooks";
+import { TransactionRetriesExhausted } from "./adapters";
+import type { ContentionResult, TestData, TransactionOperation } from "./types";
+
+// Measurement order, deleting a user last keeps the earlier data intact
+export const TRANSACTION_OPERATIONS: TransactionOperation[] = [
+  "likePost",
+  "transferPost",
+  "deleteUser",
+];
+
+// Transactions per writer in a contention run
+export const CONTENTION_ROUNDS = 25;
+
+// Up to `count` post/user pairs without a like in the data, post by post, so
+// consecutive likes increment the like_count of the same post
+export function unlikedPairs(data: TestData, count: number): [number, number][] {
+  const liked = new Set(data.likes.map((like) => `${like.post_id}:${like.user_id}`));
+  const pairs: [number, number][] = [];
+
+  for (const post of data.posts) {
+    for (const user of data.users) {
+      if (pairs.length === count) return pairs;
+      if (!liked.has(`${post.id}:${user.id}`)) pairs.push([post.id, user.id]);
+    }
+  }
+  return pairs;
+}
+
+// Runs the transactions from `writers` concurrent workers, every worker takes
+// the next one as soon as its previous one finished
+export async function runContention(
+  operation: TransactionOperation,
+  transactions: (() => Promise<number>)[],
+  writers: number,
+): Promise<Omit<ContentionResult, "consistent">> {
+  let next = 0;
+  let committed = 0;
+  let failed = 0;
+  let retries = 0;
+
+  const start = performance.now();
+
+  const worker = async () => {
+    while (next < transactions.length) {
+      const transaction = transactions[next++];
+      try {
+        retries += await transaction();
+        committed++;
+      } catch (error) {
+        failed++;
+        if (error instanceof TransactionRetriesExhausted) retries += error.retries;
+      }
+    }
+  };
+
+  await Promise.all(Array.from({ length: writers }, worker));
+  const elapsed = performance.now() - start;
+
+  return {
+    operation,
+    writers,
+    operations: transactions.length,
+    committed,
+    failed,
+    retries,
+    durationMs: elapsed,
+    opsPerSecond: committed / (elapsed / 1000),
+  };
+}
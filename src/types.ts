@@ -30,40 +30,408 @@ export type MongoFollows = {
     created_at: Date;
 }
 
-export type Scale = 100 | 1000 | 30000;
+// Engine independent test data, every adapter maps it to its own schema
+export type UserRecord = {
+    id: number;
+    username: string;
+    role: string;
+    created_at: Date;
+}
+
+export type PostRecord = {
+    id: number;
+    title: string;
+    body: string;
+    status: string;
+    created_at: Date;
+    user_id: number;
+}
+
+export type LikeRecord = {
+    post_id: number;
+    user_id: number;
+    created_at: Date;
+}
+
+// following_user_id follows followed_user_id
+export type FollowRecord = {
+    following_user_id: number;
+    followed_user_id: number;
+    created_at: Date;
+}
+
+// Rows of one table, streamed seeding inserts them batch by batch
+export type DataBatch =
+  | { table: "users"; rows: UserRecord[] }
+  | { table: "posts"; rows: PostRecord[] }
+  | { table: "likes"; rows: LikeRecord[] };
+
+export type SeedingTable = DataBatch["table"];
+
+export interface TestData {
+    users: UserRecord[];
+    posts: PostRecord[];
+    likes: LikeRecord[];
+    follows: FollowRecord[];
+}
+
+// Posts generated per dataset, users are a tenth of it
+export type Scale = number;
 
-export interface TestResults {
-    postgresBasic: OperationResults;
-    postgresWithRelations: OperationResults;
-    mongoBasic: OperationResults;
-    mongoWithRelations: OperationResults;
-    mongoWithIndexes: OperationResults;
-    mongoAtlas: OperationResults;  // Add MongoDB Atlas type
-  }
+export type Engine = "postgres" | "mongo" | "sqlite";
+
+export type Suite = "basic" | "relational" | "indexed";
+
+// Keyed by adapter key, e.g. postgresBasic or mongoWithIndexes
+export type TestResults = Record<string, OperationResults>;
+
+// Every generated dataset, the scale suites plus the ones only used by a single benchmark
+export type DatasetName =
+  | Suite
+  | "aggregation"
+  | "graph"
+  | "pagination"
+  | "search"
+  | "seeding"
+  | "workload"
+  | "transaction";
+
+// sha256 of the generated data per scale and dataset
+export type DatasetFingerprints = Record<number, Partial<Record<DatasetName, string>>>;
+
+export interface ConnectOptions {
+  poolSize?: number;  // Prisma connection_limit and MongoClient maxPoolSize
+  captureQueries?: boolean;  // Record the sent queries so they can be explained
+}
+
+export interface MeasureOptions {
+  warmup: number;      // Unrecorded runs before measuring
+  iterations: number;  // Recorded runs per operation
+  explain?: boolean;   // Capture the query plans of every operation before measuring it
+}
+
+export interface LatencyStats {
+  iterations: number;
+  min: number;
+  max: number;
+  mean: number;
+  median: number;
+  p95: number;
+  p99: number;
+  stdDev: number;
+  samples: number[];
+}
 
 export interface OperationResults {
-  writes: number;
-  simpleRead: number;
-  filteredRead: number;
-  projectedRead: number;
-  sortedRead: number;
-  update: number;
-  delete: number;
-}
-
-export interface AggregationResults {
-  postgres: {
-    postsPerUser: number;
-    avgLikesPerPost: number;
-    mostActiveUsers: number;
-    mostLikedPosts: number;
-    userEngagement: number;
-  };
-  mongo: {
-    postsPerUser: number;
-    avgLikesPerPost: number;
-    mostActiveUsers: number;
-    mostLikedPosts: number;
-    userEngagement: number;
-  };
-}
\ No newline at end of file
+  writes: LatencyStats;
+  simpleRead: LatencyStats;
+  filteredRead: LatencyStats;
+  projectedRead: LatencyStats;
+  sortedRead: LatencyStats;
+  update: LatencyStats;
+  delete: LatencyStats;
+}
+
+export type Operation = keyof OperationResults;
+
+export interface AggregationOperationResults {
+  postsPerUser: LatencyStats;
+  avgLikesPerPost: LatencyStats;
+  mostActiveUsers: LatencyStats;
+  mostLikedPosts: LatencyStats;
+  userEngagement: LatencyStats;
+}
+
+export type AggregationOperation = keyof AggregationOperationResults;
+
+// Keyed by engine or target, e.g. postgres or atlas
+export type AggregationResults = Record<string, AggregationOperationResults>;
+
+export interface GraphOperationResults {
+  followWrites: LatencyStats;
+  followCounts: LatencyStats;
+  mutualFollows: LatencyStats;
+  friendsOfFriends: LatencyStats;
+  homeTimeline: LatencyStats;
+}
+
+export type GraphOperation = keyof GraphOperationResults;
+
+// Keyed by engine or target, e.g. postgres or atlas
+export type GraphResults = Record<string, GraphOperationResults>;
+
+// One page of the post feed near its start, in its middle and at its end,
+// requested with OFFSET/skip or after the last post of the previous page
+export interface PaginationOperationResults {
+  offsetFirst: LatencyStats;
+  offsetMiddle: LatencyStats;
+  offsetLast: LatencyStats;
+  keysetFirst: LatencyStats;
+  keysetMiddle: LatencyStats;
+  keysetLast: LatencyStats;
+}
+
+export type PaginationOperation = keyof PaginationOperationResults;
+
+// Keyed by engine or target and whether the feed index exists, e.g. postgres-indexed
+export type PaginationResults = Record<string, PaginationOperationResults>;
+
+// Operations that can be repeated on the same data without changing it
+export type ThroughputOperation =
+  | Exclude<Operation, "writes" | "update" | "delete">
+  | AggregationOperation;
+
+export interface ThroughputResult {
+  concurrency: number;
+  durationMs: number;  // Measured wall time, slightly above the requested duration
+  operations: number;  // Successful operations
+  errors: number;
+  opsPerSecond: number;
+  latency: Omit<LatencyStats, "samples"> | null;  // null if every operation failed
+}
+
+// Keyed by adapter key, one entry per concurrency level
+export type ThroughputResults = Record<string, ThroughputResult[]>;
+
+// Key-value style operations of the YCSB workloads, on single posts
+export type WorkloadOperation = "read" | "update" | "insert" | "scan" | "readModifyWrite";
+
+// How the post ids of reads, updates and scans are picked
+export type KeyDistribution = "uniform" | "zipfian" | "latest";
+
+export type WorkloadPreset =
+  | "read-heavy"
+  | "update-heavy"
+  | "read-mostly"
+  | "insert-latest"
+  | "scan-short-ranges"
+  | "read-modify-write";
+
+export interface WorkloadSpec {
+  proportions: Partial<Record<WorkloadOperation, number>>;  // Sum up to 1
+  distribution: KeyDistribution;
+  maxScanLength: number;  // Scans read 1 to maxScanLength posts
+}
+
+export interface WorkloadResult {
+  durationMs: number;
+  operationCount: number;
+  opsPerSecond: number;
+  // Only the operation types that occurred
+  operations: Partial<Record<WorkloadOperation, Omit<LatencyStats, "samples">>>;
+}
+
+// Keyed by engine or target, e.g. postgres or atlas
+export type WorkloadResults = Record<string, WorkloadResult>;
+
+// Multi-record writes that have to be atomic
+export type TransactionOperation = "likePost" | "deleteUser" | "transferPost";
+
+// Interactive transactions run application code between their queries,
+// batched ones send a fixed list of queries
+export type TransactionMode = "interactive" | "batched";
+
+// Concurrent writers running conflicting transactions on the same records
+export interface ContentionResult {
+  operation: TransactionOperation;
+  writers: number;
+  operations: number;  // Transactions started
+  committed: number;
+  failed: number;      // Failed after the last retry or with an error that isn't a conflict
+  retries: number;     // Conflicts retried, of committed and failed transactions
+  durationMs: number;
+  opsPerSecond: number;  // Committed transactions
+  consistent: boolean | null;  // Whether the denormalized like counts agree, null if not checked
+}
+
+export interface TransactionResult {
+  operations: Record<TransactionOperation, LatencyStats>;
+  contention: ContentionResult[];
+}
+
+// Keyed by engine or target and mode, e.g. postgres-batched
+export type TransactionResults = Record<string, TransactionResult>;
+
+// Postgres tsvector with a GIN index, ILIKE with and without a trigram index,
+// MongoDB's text index
+export type SearchMethod = "tsvector" | "trigram" | "ilike" | "text";
+
+// Posts containing every term, or the terms next to each other in this order
+export interface SearchQuery {
+  terms: string[];
+  phrase: boolean;
+}
+
+export interface SearchOperationResults {
+  singleTerm: LatencyStats;
+  multiTerm: LatencyStats;
+  phrase: LatencyStats;
+}
+
+export type SearchOperation = keyof SearchOperationResults;
+
+export interface SearchResult {
+  build: LatencyStats | null;  // null for a method without an index
+  sizeBytes: number | null;
+  operations: SearchOperationResults;
+}
+
+// Keyed by engine or target and method, e.g. postgres-tsvector
+export type SearchResults = Record<string, SearchResult>;
+
+// Time spent inserting, generating the batches isn't counted
+export interface SeedingTableResult {
+  rows: number;
+  durationMs: number;
+  rowsPerSecond: number;
+}
+
+export interface SeedingResult {
+  batchSize: number;
+  batches: number;
+  tables: Record<SeedingTable, SeedingTableResult>;
+  total: SeedingTableResult;
+  peakHeapBytes: number;  // Of the benchmark process, the generated rows included
+}
+
+// Keyed by engine or target, e.g. postgres or atlas
+export type SeedingResults = Record<string, SeedingResult>;
+
+// Where and with what a run was made, stored with its results
+export interface RunMetadata {
+  runId: string;
+  startedAt: string;
+  finishedAt: string;
+  argv: string[];
+  git: { commit: string; dirty: boolean } | null;  // null outside a checkout
+  runtime: { bun: string; platform: string; arch: string; cpus: string; memoryBytes: number };
+  packages: Record<string, string>;  // Installed versions of the database drivers
+}
+
+// Container image a run used for an engine
+export interface ContainerImage {
+  engine: Engine;
+  image: string;   // As requested, e.g. postgres:17-alpine
+  digest: string;  // Repo digest of the pulled image, the image id for local builds
+}
+
+// What a scale operation returned
+export type OperationOutcome =
+  | { rows: unknown[] }     // Reads
+  | { affected: number };   // Writes, updates and deletes
+
+// Verification of one operation against the same operation of the suite's
+// first variant, which ran on the same dataset
+export interface OperationCheck {
+  rows?: number;
+  affected?: number;
+  fields?: string[];  // Top-level fields every variant of the suite returned
+  checksum?: string;  // Over the compared fields of every returned row
+  reference: string;  // Variant key compared against
+  matches: boolean;
+}
+
+// Per variant and operation, only suites with more than one variant are verified
+export type Verification = Record<string, Partial<Record<Operation, OperationCheck>>>;
+
+// Secondary indexes of a variant, built on the written data
+export interface IndexResult {
+  build: LatencyStats;  // Creating all of them at once
+  sizeBytes: number;
+}
+
+export type IndexResults = Record<string, IndexResult>;
+
+// CPU and memory of a database container during an extra, untimed run of an
+// operation, from the Docker stats API
+export interface ResourceUsage {
+  cpuMs: number;       // Container CPU time per run
+  cpuPercent: number;  // CPU time over wall time, 100 is one core
+  memoryPeakBytes: number;
+  memoryMeanBytes: number;
+  samples: number;     // Memory samples taken, at least two per run
+}
+
+// Keyed by adapter key and operation
+export type ResourceResults = Record<string, Partial<Record<Operation, ResourceUsage>>>;
+
+// Bytes on disk of a table or collection, toast and padding included
+export interface StorageSize {
+  dataBytes: number;
+  indexBytes: number;
+}
+
+// Keyed by adapter key, then by table or collection
+export type StorageResults = Record<string, Record<string, StorageSize>>;
+
+// Writes to data that denormalized variants keep copies of
+export interface MaintenanceOperationResults {
+  renameUser: LatencyStats;  // The user's posts embed the username
+  addLike: LatencyStats;     // Posts keep a like_count
+  removeLike: LatencyStats;
+}
+
+export type MaintenanceOperation = keyof MaintenanceOperationResults;
+
+// Keyed by adapter key
+export type MaintenanceResults = Record<string, MaintenanceOperationResults>;
+
+export interface QueryPlan {
+  query: string;              // SQL or the MongoDB command as JSON, cut off when very long
+  plan: unknown;              // EXPLAIN output as returned by the engine
+  sequentialScans: string[];  // Tables or collections read in full
+  indexes: string[];          // Indexes the plan uses
+}
+
+// Per scale, adapter key and operation, one plan per query the operation sends
+export type QueryPlans = Record<number, Record<string, Record<string, QueryPlan[]>>>;
+
+// Contents of test-results.json and of every run in the history
+export interface StoredResults {
+  run?: RunMetadata;  // Missing in files written before the history existed
+  images?: ContainerImage[];  // Missing with --no-docker
+  seed: number | null;
+  datasets: DatasetFingerprints;
+  variants: Record<string, string>;
+  scaleTests: Record<number, TestResults>;
+  aggregationScale?: number;
+  aggregationTests: AggregationResults;
+  graphTests: Record<number, GraphResults>;
+  paginationTests?: Record<number, PaginationResults>;
+  searchQueries?: Record<number, Record<SearchOperation, SearchQuery>>;
+  searchTests?: Record<number, SearchResults>;
+  seedingTests?: Record<number, SeedingResults>;
+  throughputOperation?: ThroughputOperation;
+  throughputTests?: Record<number, ThroughputResults>;
+  workload?: WorkloadSpec & { preset: WorkloadPreset };
+  workloadTests?: Record<number, WorkloadResults>;
+  indexTests?: Record<number, IndexResults>;
+  maintenanceTests?: Record<number, MaintenanceResults>;
+  resourceTests?: Record<number, ResourceResults>;  // Missing with --no-docker
+  storageTests?: Record<number, StorageResults>;
+  verification?: Record<number, Verification>;
+  queryPlans?: QueryPlans;
+  transactionTests?: Record<number, TransactionResults>;
+  network?: NetworkProfile & { profile: string };  // Only runs through the latency proxy
+}
+
+// One run of the version matrix
+export interface MatrixEntry extends ContainerImage {
+  runId: string;
+  results: StoredResults;
+}
+
+// Network the latency proxy emulates between the benchmark and a database
+export interface NetworkProfile {
+  rttMs: number;                 // Added to every round trip, half in each direction
+  jitterMs: number;              // Every chunk arrives up to this much earlier or later
+  bandwidthMbps: number | null;  // Per direction, null for unlimited
+}
+
+// One run of the network comparison, the direct run has no profile
+export interface NetworkEntry {
+  profile: string;
+  network: NetworkProfile | null;
+  runId: string;
+  results: StoredResults;
+}
@@ -0,0 +1,96 @@
+import { describe, expect, test } from "bun:test";
+import { toObjectId } from "./adapters/mongo";
+import {
+  describeMismatch,
+  fingerprintOutcome,
+  verifyOutcomes,
+  type OutcomeFingerprints,
+} from "./verification";
+
+const created = new Date("2024-01-02T03:04:05.000Z");
+
+describe("fingerprintOutcome", () => {
+  test("keeps the count of a write", () => {
+    expect(fingerprintOutcome("writes", { affected: 12 })).toEqual({ affected: 12 });
+  });
+
+  test("matches a Mongo document with the same SQL row", () => {
+    const sql = fingerprintOutcome("simpleRead", {
+      rows: [{ id: 7, title: "a", created_at: created.toISOString(), user_id: 3n }],
+    });
+    const mongo = fingerprintOutcome("simpleRead", {
+      rows: [{ _id: toObjectId(7), title: "a", created_at: created, user_id: toObjectId(3) }],
+    });
+    expect(mongo).toEqual(sql);
+  });
+
+  test("ignores the row order unless the operation sorts", () => {
+    const rows = [
+      { id: 1, created_at: "2024-01-01" },
+      { id: 2, created_at: "2024-01-02" },
+    ];
+    const reversed = [...rows].reverse();
+    expect(fingerprintOutcome("simpleRead", { rows: reversed }))
+      .toEqual(fingerprintOutcome("simpleRead", { rows }));
+
+    const sorted = fingerprintOutcome("sortedRead", { rows });
+    const unsorted = fingerprintOutcome("sortedRead", { rows: reversed });
+    expect(unsorted.fields!.created_at).not.toBe(sorted.fields!.created_at);
+    expect(unsorted.fields!.id).toBe(sorted.fields!.id);
+  });
+
+  test("leaves out nested values and denormalized copies", () => {
+    const { fields } = fingerprintOutcome("simpleRead", {
+      rows: [{ id: 1, user: { id: 2 }, likes: [1, 2], like_count: 4 }],
+    });
+    expect(Object.keys(fields!)).toEqual(["id"]);
+  });
+});
+
+describe("verifyOutcomes", () => {
+  const read = (title: string) => fingerprintOutcome("simpleRead", { rows: [{ id: 1, title }] });
+
+  test("marks every variant that agrees with the first one", () => {
+    const fingerprints = new Map<string, OutcomeFingerprints>([
+      ["postgresBasic", { simpleRead: read("a"), writes: { affected: 10 } }],
+      ["mongoBasic", { simpleRead: read("a"), writes: { affected: 10 } }],
+      ["sqliteBasic", { simpleRead: read("b"), writes: { affected: 9 } }],
+    ]);
+    const verification = verifyOutcomes(fingerprints);
+
+    expect(verification.mongoBasic.simpleRead!.matches).toBe(true);
+    expect(verification.mongoBasic.writes!.matches).toBe(true);
+    expect(verification.sqliteBasic.simpleRead!.matches).toBe(false);
+    expect(verification.sqliteBasic.writes!.matches).toBe(false);
+    expect(verification.sqliteBasic.writes!.reference).toBe("postgresBasic");
+  });
+
+  test("compares only the fields every variant returned", () => {
+    const fingerprints = new Map<string, OutcomeFingerprints>([
+      ["postgresWithRelations", {
+        projectedRead: fingerprintOutcome("projectedRead", { rows: [{ id: 1, title: "a", body: "x" }] }),
+      }],
+      ["mongoWithRelations", {
+        projectedRead: fingerprintOutcome("projectedRead", { rows: [{ _id: toObjectId(1), title: "a" }] }),
+      }],
+    ]);
+    const check = verifyOutcomes(fingerprints).mongoWithRelations.projectedRead!;
+    expect(check.fields).toEqual(["id", "title"]);
+    expect(check.matches).toBe(true);
+  });
+
+  test("tells a different row count apart from different values", () => {
+    const fingerprints = new Map<string, OutcomeFingerprints>([
+      ["postgresBasic", { simpleRead: read("a"), update: { affected: 120 } }],
+      ["mongoBasic", { simpleRead: read("b"), update: { affected: 118 } }],
+    ]);
+    const verification = verifyOutcomes(fingerprints);
+    const expected = verification.postgresBasic;
+    const checks = verification.mongoBasic;
+
+    expect(describeMismatch("update", checks.update!, expected.update!))
+      .toBe("update affected 118 rows, postgresBasic 120");
+    expect(describeMismatch("simpleRead", checks.simpleRead!, expected.simpleRead!))
+      .toBe("simpleRead returned different values of id, title than postgresBasic");
+  });
+});
@@ -0,0 +1,112 @@
+import { createHash } from "crypto";
+import { ObjectId } from "mongodb";
+import type { Operation, OperationCheck, OperationOutcome, Verification } from "./types";
+
+// Operations that sort their rows by this field, its checksum keeps the
+// returned order. Rows with equal sort keys may come back in any order, so the
+// other fields are compared order-insensitively.
+const ORDER_FIELDS: Partial<Record<Operation, string>> = {
+  sortedRead: "created_at",
+};
+
+// Copies only the denormalized variants keep up to date, the others return
+// the column's default
+const DENORMALIZED_FIELDS = new Set(["like_count"]);
+
+// What's left of an outcome once the rows are dropped
+export interface OutcomeFingerprint {
+  rows?: number;
+  affected?: number;
+  fields?: Record<string, string>;  // Checksum per top-level scalar field
+}
+
+export type OutcomeFingerprints = Partial<Record<Operation, OutcomeFingerprint>>;
+
+const sha256 = (text: string) => createHash("sha256").update(text).digest("hex");
+
+// Makes the values of the engines comparable: ObjectIds of generated records
+// encode their ids, dates are ISO strings like in SQLite. Nested documents and
+// arrays differ in shape between engines and aren't compared.
+function normalize(value: unknown): string | number | boolean | null | undefined {
+  if (value === null) return null;
+  if (value instanceof Date) return value.toISOString();
+  if (value instanceof ObjectId) return parseInt(value.toHexString(), 16);
+  if (typeof value === "bigint") return Number(value);
+  if (["string", "number", "boolean"].includes(typeof value)) {
+    return value as string | number | boolean;
+  }
+  return undefined;
+}
+
+export function fingerprintOutcome(op: Operation, outcome: OperationOutcome): OutcomeFingerprint {
+  if ("affected" in outcome) return { affected: outcome.affected };
+
+  const values = new Map<string, string[]>();
+  for (const row of outcome.rows as Record<string, unknown>[]) {
+    for (const [key, raw] of Object.entries(row)) {
+      const value = normalize(raw);
+      if (value === undefined || DENORMALIZED_FIELDS.has(key)) continue;
+
+      // MongoDB's _id is the record id
+      const field = key === "_id" ? "id" : key;
+      if (!values.has(field)) values.set(field, []);
+      values.get(field)!.push(JSON.stringify(value));
+    }
+  }
+
+  const fields: Record<string, string> = {};
+  for (const [field, list] of values) {
+    if (field !== ORDER_FIELDS[op]) list.sort();
+    fields[field] = sha256(list.join("\n"));
+  }
+  return { rows: outcome.rows.length, fields };
+}
+
+// Compares every variant of a suite with the first one. Rows are compared on
+// the fields all variants returned for the operation.
+export function verifyOutcomes(fingerprints: Map<string, OutcomeFingerprints>): Verification {
+  const verification: Verification = {};
+  const [reference] = fingerprints.keys();
+
+  for (const op of Object.keys(fingerprints.get(reference)!) as Operation[]) {
+    const outcomes = [...fingerprints].filter(([, ops]) => ops[op]);
+    const common = Object.keys(fingerprints.get(reference)![op]!.fields ?? {})
+      .filter((field) => outcomes.every(([, ops]) => ops[op]!.fields?.[field]))
+      .sort();
+
+    const checks = outcomes.map(([key, ops]): [string, OperationCheck] => {
+      const { rows, affected, fields } = ops[op]!;
+      return [key, {
+        rows,
+        affected,
+        ...(fields && {
+          fields: common,
+          checksum: sha256(common.map((field) => `${field}:${fields[field]}`).join("\n")),
+        }),
+        reference,
+        matches: true,
+      }];
+    });
+
+    const [, expected] = checks[0];
+    for (const [key, check] of checks) {
+      check.matches = check.rows === expected.rows &&
+        check.affected === expected.affected &&
+        check.checksum === expected.checksum;
+      verification[key] = { ...verification[key], [op]: check };
+    }
+  }
+
+  return verification;
+}
+
+// e.g. "update affected 120 rows, postgresBasic 118"
+export function describeMismatch(op: Operation, check: OperationCheck, expected: OperationCheck) {
+  if (check.affected !== expected.affected) {
+    return `${op} affected ${check.affected} rows, ${check.reference} ${expected.affected}`;
+  }
+  if (check.rows !== expected.rows) {
+    return `${op} returned ${check.rows} rows, ${check.reference} ${expected.rows}`;
+  }
+  return `${op} returned different values of ${check.fields?.join(", ")} than ${check.reference}`;
+}
@@ -0,0 +1,202 @@
+import { faker } from "@faker-js/faker";
+import { performance } from "perf_hooks";
+import type { WorkloadAdapter } from "./adapters";
+import { generatePost, POST_STATUSES, seedFaker } from "./data-generator";
+import { summarize } from "./stats";
+import type {
+  KeyDistribution,
+  PostRecord,
+  Scale,
+  TestData,
+  WorkloadOperation,
+  WorkloadPreset,
+  WorkloadResult,
+  WorkloadSpec,
+} from "./types";
+
+export const WORKLOAD_OPERATIONS: WorkloadOperation[] = [
+  "read",
+  "update",
+  "insert",
+  "scan",
+  "readModifyWrite",
+];
+
+export const KEY_DISTRIBUTIONS: KeyDistribution[] = ["uniform", "zipfian", "latest"];
+
+// YCSB core workloads A-F
+export const WORKLOAD_PRESETS: Record<WorkloadPreset, WorkloadSpec> = {
+  // C: read only
+  "read-heavy": {
+    proportions: { read: 1 },
+    distribution: "zipfian",
+    maxScanLength: 100,
+  },
+  // A: session store recording recent actions
+  "update-heavy": {
+    proportions: { read: 0.5, update: 0.5 },
+    distribution: "zipfian",
+    maxScanLength: 100,
+  },
+  // B: photo tagging, mostly reading tags
+  "read-mostly": {
+    proportions: { read: 0.95, update: 0.05 },
+    distribution: "zipfian",
+    maxScanLength: 100,
+  },
+  // D: status updates, people read the newest ones
+  "insert-latest": {
+    proportions: { read: 0.95, insert: 0.05 },
+    distribution: "latest",
+    maxScanLength: 100,
+  },
+  // E: threaded conversations, each scan reads the posts of a thread
+  "scan-short-ranges": {
+    proportions: { scan: 0.95, insert: 0.05 },
+    distribution: "zipfian",
+    maxScanLength: 100,
+  },
+  // F: user database, records are read, modified and written back
+  "read-modify-write": {
+    proportions: { read: 0.5, readModifyWrite: 0.5 },
+    distribution: "zipfian",
+    maxScanLength: 100,
+  },
+};
+
+// Skew of the YCSB zipfian generator
+const ZIPFIAN_CONSTANT = 0.99;
+
+// Zipfian ranks in [0, items) after Gray et al., "Quickly Generating
+// Billion-Record Synthetic Databases". Rank 0 is the most popular item.
+class ZipfianGenerator {
+  private items = 0;
+  private zetan = 0;
+  private readonly zeta2 = 1 + 0.5 ** ZIPFIAN_CONSTANT;
+  private readonly alpha = 1 / (1 - ZIPFIAN_CONSTANT);
+
+  next(items: number): number {
+    // Inserts grow the key space, zeta is extended instead of recomputed
+    for (; this.items < items; this.items++) {
+      this.zetan += 1 / (this.items + 1) ** ZIPFIAN_CONSTANT;
+    }
+
+    const eta = (1 - (2 / items) ** (1 - ZIPFIAN_CONSTANT)) /
+      (1 - this.zeta2 / this.zetan);
+    const u = faker.number.float();
+    const uz = u * this.zetan;
+
+    if (uz < 1) return 0;
+    if (uz < this.zeta2) return Math.min(1, items - 1);
+    return Math.min(
+      items - 1,
+      Math.floor(items * (eta * u - eta + 1) ** this.alpha),
+    );
+  }
+}
+
+export type WorkloadStep =
+  | { operation: "read"; postId: number }
+  | { operation: "update" | "readModifyWrite"; postId: number; status: string }
+  | { operation: "insert"; post: PostRecord }
+  | { operation: "scan"; postId: number; count: number };
+
+// Pre-generates the operations so every engine replays the same sequence.
+// Inserted posts continue the ids of the generated posts.
+export function generateWorkload(
+  spec: WorkloadSpec,
+  operationCount: number,
+  data: TestData,
+  scale: Scale,
+  seed?: number,
+): WorkloadStep[] {
+  seedFaker(seed, 5, scale);
+
+  const weights = WORKLOAD_OPERATIONS
+    .filter((op) => (spec.proportions[op] ?? 0) > 0)
+    .map((op) => ({ value: op, weight: spec.proportions[op]! }));
+  const zipfian = new ZipfianGenerator();
+  // Spreading a million ids into Math.max overflows the stack
+  let lastId = data.posts.reduce((max, post) => Math.max(max, post.id), 0);
+
+  const nextKey = () => {
+    switch (spec.distribution) {
+      case "uniform":
+        return faker.number.int({ min: 1, max: lastId });
+      case "zipfian":
+        // The oldest posts are the hottest ones
+        return zipfian.next(lastId) + 1;
+      case "latest":
+        return lastId - zipfian.next(lastId);
+    }
+  };
+
+  return Array.from({ length: operationCount }, (): WorkloadStep => {
+    const operation = faker.helpers.weightedArrayElement(weights);
+    switch (operation) {
+      case "read":
+        return { operation, postId: nextKey() };
+      case "update":
+      case "readModifyWrite":
+        return {
+          operation,
+          postId: nextKey(),
+          status: faker.helpers.arrayElement(POST_STATUSES),
+        };
+      case "insert":
+        return { operation, post: generatePost(++lastId, data.users.length) };
+      case "scan":
+        return {
+          operation,
+          postId: nextKey(),
+          count: faker.number.int({ min: 1, max: spec.maxScanLength }),
+        };
+    }
+  });
+}
+
+function runStep(adapter: WorkloadAdapter, step: WorkloadStep): Promise<void> {
+  switch (step.operation) {
+    case "read":
+      return adapter.readPost(step.postId);
+    case "update":
+      return adapter.updatePost(step.postId, step.status);
+    case "insert":
+      return adapter.insertPost(step.post);
+    case "scan":
+      return adapter.scanPosts(step.postId, step.count);
+    case "readModifyWrite":
+      return adapter.readPost(step.postId)
+        .then(() => adapter.updatePost(step.postId, step.status));
+  }
+}
+
+// Runs the steps one after another from a single client
+export async function runWorkload(
+  adapter: WorkloadAdapter,
+  steps: WorkloadStep[],
+): Promise<WorkloadResult> {
+  const latencies: Partial<Record<WorkloadOperation, number[]>> = {};
+
+  const start = performance.now();
+  for (const step of steps) {
+    const stepStart = performance.now();
+    await runStep(adapter, step);
+    (latencies[step.operation] ??= []).push(performance.now() - stepStart);
+  }
+  const elapsed = performance.now() - start;
+
+  const operations: WorkloadResult["operations"] = {};
+  for (const op of WORKLOAD_OPERATIONS) {
+    if (!latencies[op]) continue;
+    const { samples, ...stats } = summarize(latencies[op]);
+    operations[op] = stats;
+  }
+
+  return {
+    durationMs: elapsed,
+    operationCount: steps.length,
+    opsPerSecond: steps.length / (elapsed / 1000),
+    operations,
+  };
+}